@@ -2,16 +2,34 @@ import {MetadataStore} from "./MetadataStore";
 import {Query} from "./app";
 import {MariadbMetadataStore} from "./MariadbMetadataStore";
 import {NoMetadataStore} from "./NoMetadataStore";
-import {log} from "../botbase";
+import {SqliteMetadataStore} from "./SqliteMetadataStore";
+import {argv, log} from "../botbase";
 
+/** Stores which can be chosen with DBTB_METADATA_STORE or --metadataStore */
+const STORE_CHOICES: Record<string, () => MetadataStore> = {
+    mariadb: () => new MariadbMetadataStore(),
+    sqlite: () => new SqliteMetadataStore(),
+    none: () => new NoMetadataStore(),
+};
+
+/**
+ * Uses ToolsDB if available, otherwise NoMetadataStore, unless a store is chosen explicitly.
+ */
 export class HybridMetadataStore implements MetadataStore {
 
-    stores: MetadataStore[] = [
-        new MariadbMetadataStore(),
-        new NoMetadataStore(),
-    ];
+    stores: MetadataStore[];
     activeStore: MetadataStore;
 
+    constructor(choice: string = process.env.DBTB_METADATA_STORE || argv.metadataStore) {
+        if (choice && !STORE_CHOICES[choice]) {
+            throw new Error(`Unknown metadata store "${choice}". Options are: ${Object.keys(STORE_CHOICES).join(', ')}`);
+        }
+        this.stores = choice ? [STORE_CHOICES[choice]()] : [
+            new MariadbMetadataStore(),
+            new NoMetadataStore(),
+        ];
+    }
+
     async init(): Promise<void> {
         for (const store of this.stores) {
             try {
@@ -23,6 +41,21 @@ export class HybridMetadataStore implements MetadataStore {
                 log(e);
             }
         }
+        if (!this.activeStore) {
+            throw new Error('No metadata store could be initialized');
+        }
+    }
+
+    /**
+     * Continue without metadata, for when init() failed as the chosen store is unavailable.
+     */
+    async fallBack(): Promise<void> {
+        this.activeStore = new NoMetadataStore();
+        await this.activeStore.init();
+    }
+
+    get recordsRunTimes() {
+        return this.activeStore.recordsRunTimes;
     }
 
     getQueriesToRun() {
@@ -41,7 +74,23 @@ export class HybridMetadataStore implements MetadataStore {
         return this.activeStore.updateLastTimestamp(query);
     }
 
+    getRowDigests(query: Query) {
+        return this.activeStore.getRowDigests(query);
+    }
+
+    recordFailure(query: Query, error: string) {
+        return this.activeStore.recordFailure(query, error);
+    }
+
+    getRunHistory(query: Query, limit: number) {
+        return this.activeStore.getRunHistory(query, limit);
+    }
+
     updateMetadata(page: string, queries: Query[]) {
         return this.activeStore.updateMetadata(page, queries);
     }
+
+    getStoredQueries() {
+        return this.activeStore.getStoredQueries();
+    }
 }
@@ -1,49 +1,79 @@
-import {toolsdb} from "../db";
-import {fetchQueriesForPage, Query} from "./app";
-import {MetadataStore} from "./MetadataStore";
+import {mysql, toolsdb} from "../db";
+import {FAILURE_SUSPENSION_THRESHOLD, Query} from "./app";
+import {fetchDueQueries, getLegacyQueryId, getTemplateMd5, MetadataStore, RunRecord, StoredQuery} from "./MetadataStore";
 import {setDifference} from "../utils";
-import * as crypto from "crypto";
+import {RowDigests} from "./row-digests";
+import {MigrationRunner} from "../migrations";
+
+/** Schema migrations of the dbreports_p database, also used by the run log */
+export const MIGRATIONS_DIR = __dirname + '/migrations';
 
 export class MariadbMetadataStore implements MetadataStore {
+    recordsRunTimes = true;
     db: toolsdb;
 
     async init() {
         this.db = new toolsdb('dbreports_p');
+        await new MigrationRunner(this.db, MIGRATIONS_DIR).migrate();
     }
 
+    /**
+     * Rows are keyed by queryId, so that reordering reports or editing parameters other than
+     * the SQL (or id) keeps their lastUpdate and history.
+     */
     async updateMetadata(page: string, queries: Query[]) {
-        const existingQueryMd5s = new Set((await this.db.query(`
-            SELECT templateMd5 FROM dbreports
+        const existingRows = await this.db.query(`
+            SELECT queryId, templateMd5 FROM dbreports
             WHERE page = ?
-        `, [page])).map(q => q.templateMd5));
-        const newQueryMd5s = new Set(queries.map(q => this.makeMd5(q)));
+        `, [page]);
+        const existingQueryIds = new Set(existingRows.map(row => row.queryId as string));
+        const newQueryIds = new Set(queries.map(q => q.queryId));
 
         await this.db.transaction(async conn => {
-            setDifference(existingQueryMd5s, newQueryMd5s).forEach(md5 => {
-                conn.execute('DELETE FROM dbreports WHERE page = ? AND templateMd5 = ?', [page, md5]);
-            });
+            for (let query of queries) {
+                const legacyId = getLegacyQueryId(query);
+                if (!existingQueryIds.has(query.queryId) && existingQueryIds.has(legacyId)) {
+                    await this.rekeyLegacyRow(conn, query);
+                    existingQueryIds.delete(legacyId);
+                    existingQueryIds.add(query.queryId);
+                }
+            }
 
-            // Don't delete lastUpdate values of unchanged reports when updating metadata
+            for (let queryId of setDifference(existingQueryIds, newQueryIds)) {
+                await conn.execute('DELETE FROM dbreports WHERE page = ? AND queryId = ?', [page, queryId]);
+            }
+
+            // Don't delete lastUpdate values of unchanged reports when updating metadata.
+            // An edit to the template lifts a suspension for failures, even if the SQL is unchanged.
+            // consecutiveFailures is set first, as assignments see the values set before them.
             for (let query of queries) {
-                const md5 = this.makeMd5(query);
                 const intervalDays = isNaN(query.config.interval) ? null : query.config.interval;
-                if (existingQueryMd5s.has(md5)) {
-                    await conn.execute(`
-                        UPDATE dbreports SET idx = ?, intervalDays = ?
-                        WHERE page = ? AND templateMd5 = ?
-                    `, [query.idx, intervalDays, query.page, md5]);
-                } else {
-                    await conn.execute(`
-                        INSERT INTO dbreports(page, idx, templateMd5, intervalDays, lastUpdate)
-                        VALUES (?, ?, ?, ?, ?)
-                    `, [query.page, query.idx, md5, intervalDays, null]);
-                }
+                const schedule = query.config.schedule?.type === 'cron' ? query.config.schedule.spec : null;
+                await conn.execute(`
+                    INSERT INTO dbreports(page, queryId, idx, templateMd5, intervalDays, schedule, lastUpdate)
+                    VALUES (?, ?, ?, ?, ?, ?, NULL)
+                    ON DUPLICATE KEY UPDATE
+                        consecutiveFailures = IF(templateMd5 <=> VALUES(templateMd5), consecutiveFailures, 0),
+                        idx = VALUES(idx), templateMd5 = VALUES(templateMd5),
+                        intervalDays = VALUES(intervalDays), schedule = VALUES(schedule)
+                `, [query.page, query.queryId, query.idx, getTemplateMd5(query), intervalDays, schedule]);
             }
         });
     }
 
-    makeMd5(query: Query) {
-        return crypto.createHash('md5').update(query.template.wikitext).digest('hex');
+    /**
+     * Switch the row of the query from its legacy ID (see getLegacyQueryId) to its queryId, if
+     * it still has one. Done wherever a row is written to, as queries also run from the cron job
+     * and the webservice before their page is next processed by the metadata maintainer.
+     */
+    async rekeyLegacyRow(conn: mysql.PoolConnection, query: Query) {
+        const legacyId = getLegacyQueryId(query);
+        const [result] = await conn.execute(`UPDATE IGNORE dbreports SET queryId = ? WHERE page = ? AND queryId = ?`,
+            [query.queryId, query.page, legacyId]);
+        if ((result as mysql.ResultSetHeader).affectedRows) {
+            await conn.execute(`UPDATE dbreports_history SET queryId = ? WHERE page = ? AND queryId = ?`,
+                [query.queryId, query.page, legacyId]);
+        }
     }
 
     /**
@@ -62,35 +92,93 @@ export class MariadbMetadataStore implements MetadataStore {
         return rows.map(row => row.page) as string[];
     }
 
+    async getStoredQueries(): Promise<StoredQuery[]> {
+        const rows = await this.db.query(`SELECT page, queryId, idx, templateMd5 FROM dbreports`);
+        return rows.map(row => ({
+            page: row.page as string,
+            queryId: row.queryId as string,
+            idx: row.idx as number,
+            templateMd5: row.templateMd5 as string,
+        }));
+    }
+
     async getQueriesToRun() {
         const data = await this.db.query(`
-            SELECT page, idx FROM dbreports
-            WHERE intervalDays IS NOT NULL 
-              AND (lastUpdate IS NULL OR lastUpdate < NOW() - INTERVAL intervalDays DAY + INTERVAL 10 MINUTE)
+            SELECT page, queryId, intervalDays, schedule,
+                TIMESTAMPDIFF(SECOND, lastUpdate, UTC_TIMESTAMP()) AS secondsSinceUpdate
+            FROM dbreports
+            WHERE (intervalDays IS NOT NULL OR schedule IS NOT NULL)
               AND idx != -1
               AND page LIKE "Commons:%"
-        `);
-        // +10 mins helps get the reports update around the same time every day.
+              AND consecutiveFailures < ?
+        `, [FAILURE_SUSPENSION_THRESHOLD]);
         // idx != -1 filters out dummy db rows indicating pages merely transcluding reports.
-        let pages: Record<string, Set<number>> = {};
-        data.forEach(row => {
-            if (!pages[row.page]) {
-                pages[row.page] = new Set();
+        // Reports which failed too many times in a row are suspended until fixed.
+        // lastUpdate is in UTC, hence the difference is taken in SQL.
+        return fetchDueQueries(data.map(row => ({
+            page: row.page as string,
+            queryId: row.queryId as string,
+            intervalDays: row.intervalDays as number,
+            schedule: row.schedule as string,
+            lastUpdate: row.secondsSinceUpdate === null ? null :
+                new Date(Date.now() - (row.secondsSinceUpdate as number) * 1000),
+        })));
+    }
+
+    async updateLastTimestamp(query: Query): Promise<void> {
+        await this.db.transaction(async conn => {
+            await this.rekeyLegacyRow(conn, query);
+            const result = await conn.execute(
+                `UPDATE dbreports SET lastUpdate = UTC_TIMESTAMP(), consecutiveFailures = 0, lastError = NULL
+                WHERE page = ? AND queryId = ?`
+                , [query.page, query.queryId]);
+            // TODO: log warning if rows affected != 1
+            // Row digests can be large, so they are only rewritten if the result changed
+            if (query.rowDigestsChanged) {
+                await conn.execute(`UPDATE dbreports SET rowDigests = ? WHERE page = ? AND queryId = ?`
+                    , [query.rowDigests ? JSON.stringify(query.rowDigests) : null, query.page, query.queryId]);
             }
-            pages[row.page].add(row.idx as number);
+            await conn.execute(`
+                INSERT INTO dbreports_history(page, queryId, idx, runAt, rowCount, queryRuntime, resultHash)
+                VALUES (?, ?, ?, UTC_TIMESTAMP(), ?, ?, ?)
+            `, [query.page, query.queryId, query.idx, query.rowCount ?? null, query.queryRuntime ?? null, query.resultHash ?? null]);
         });
-        const result: Record<string, Query[]> = {};
-        for (const [page, indices] of Object.entries(pages)) {
-            const queries = await fetchQueriesForPage(page);
-            result[page] = queries.filter(q => indices.has(q.idx));
-        }
-        return result;
     }
 
-    async updateLastTimestamp(query: Query): Promise<void> {
-        const result = await this.db.run(
-            `UPDATE dbreports SET lastUpdate = UTC_TIMESTAMP() WHERE page = ? AND idx = ?`
-            , [query.page, query.idx]);
-        // TODO: log warning if rows affected != 1
+    async getRowDigests(query: Query): Promise<RowDigests | null> {
+        const rows = await this.db.query(
+            `SELECT rowDigests FROM dbreports WHERE page = ? AND queryId IN (?, ?)`
+            , [query.page, query.queryId, getLegacyQueryId(query)]);
+        const digests = rows[0]?.rowDigests as string;
+        return digests ? JSON.parse(digests) : null;
+    }
+
+    async recordFailure(query: Query, error: string): Promise<number> {
+        await this.db.transaction(async conn => {
+            await this.rekeyLegacyRow(conn, query);
+            await conn.execute(`
+                UPDATE dbreports SET consecutiveFailures = consecutiveFailures + 1, lastError = ?
+                WHERE page = ? AND queryId = ?
+            `, [error.slice(0, 255), query.page, query.queryId]);
+        });
+        const rows = await this.db.query(
+            `SELECT consecutiveFailures FROM dbreports WHERE page = ? AND queryId = ?`
+            , [query.page, query.queryId]);
+        return (rows[0]?.consecutiveFailures as number) ?? 0;
+    }
+
+    async getRunHistory(query: Query, limit: number): Promise<RunRecord[]> {
+        const rows = await this.db.query(`
+            SELECT runAt, rowCount, queryRuntime, resultHash FROM dbreports_history
+            WHERE page = ? AND queryId IN (?, ?)
+            ORDER BY runAt DESC
+            LIMIT ?
+        `, [query.page, query.queryId, getLegacyQueryId(query), limit]);
+        return rows.map(row => ({
+            timestamp: new Date(row.runAt as string),
+            rowCount: row.rowCount as number,
+            queryRuntime: row.queryRuntime as number,
+            resultHash: row.resultHash as string,
+        }));
     }
 }
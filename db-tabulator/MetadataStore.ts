@@ -1,10 +1,113 @@
-import {Query} from "./app";
+import {fetchQueriesForPage, Query} from "./app";
+import {RowDigests} from "./row-digests";
+import {intervalSchedule, isUpdateDue, parseSchedule, Schedule} from "./schedule";
+import {log} from "../botbase";
+import * as crypto from "crypto";
+
+/** A past run of a query, as recorded in the run history */
+export interface RunRecord {
+    timestamp: Date;
+    rowCount: number;
+    /** Seconds */
+    queryRuntime: number;
+    resultHash: string;
+}
+
+/** A query as recorded in the store */
+export interface StoredQuery {
+    page: string;
+    queryId: string;
+    /** 0 (or -1 in older rows) for dummy rows of pages which only transclude reports from other pages */
+    idx: number;
+    templateMd5: string;
+}
 
 export interface MetadataStore {
+    /**
+     * Whether the store records the time of each run. Stores which don't go by the bot's last
+     * edit to the page, so edits changing only the footer can't be skipped.
+     */
+    readonly recordsRunTimes: boolean;
     init(): Promise<void>;
     updateMetadata(page: string, queries: Query[]): Promise<void>;
     getAllPages(): Promise<Array<string>>;
     removeOthers(pages: Set<string>): Promise<void>;
+    /**
+     * Record a successful run of the query: time of update and the row digests of the result
+     * (if changed), and an entry in the run history. The history only has the row count and a
+     * hash of the result, the row digests are kept for the last run only.
+     */
     updateLastTimestamp(query: Query): Promise<void>;
+    /** Row digests stored by the last successful run of the query, if available */
+    getRowDigests(query: Query): Promise<RowDigests | null>;
+    /**
+     * Record a failed run (query timeout, SQL error or save failure). Consecutive failures are
+     * reset by updateLastTimestamp().
+     * @returns number of consecutive failures of the query, including this one
+     */
+    recordFailure(query: Query, error: string): Promise<number>;
+    /** Most recent runs of the query, latest first */
+    getRunHistory(query: Query, limit: number): Promise<RunRecord[]>;
     getQueriesToRun(): Promise<Record<string, Query[]>>;
+    /** All queries in the store, for auditing */
+    getStoredQueries(): Promise<StoredQuery[]>;
+}
+
+export function getTemplateMd5(query: Query): string {
+    return crypto.createHash('md5').update(query.template.wikitext).digest('hex');
+}
+
+/**
+ * Rows stored before query IDs were introduced are identified by this until re-keyed
+ * (see migration 003), as the SQL isn't stored to compute the queryId from.
+ */
+export function getLegacyQueryId(query: Query): string {
+    return 'md5:' + getTemplateMd5(query);
+}
+
+/** Stored schedule of a query, from which stores decide whether it is due */
+export interface StoredSchedule {
+    page: string;
+    queryId: string;
+    intervalDays: number | null;
+    /** schedule parameter, if valid */
+    schedule: string | null;
+    lastUpdate: Date | null;
+}
+
+export function getStoredSchedule(spec: string | null, intervalDays: number | null): Schedule | null {
+    if (spec) {
+        try {
+            return parseSchedule(spec);
+        } catch (e) {
+            // Only valid schedules are saved, but the parser could have changed since
+            log(`[E] Invalid stored schedule "${spec}": ${e.message}`);
+            return null;
+        }
+    }
+    return intervalSchedule(intervalDays ?? NaN);
+}
+
+/**
+ * Fetch the queries which are due for an update, as per their stored schedules. Whether they
+ * are due is decided here rather than in SQL, to share the logic across stores.
+ * @returns queries keyed by page
+ */
+export async function fetchDueQueries(rows: StoredSchedule[]): Promise<Record<string, Query[]>> {
+    const pages: Record<string, Set<string>> = {};
+    for (let row of rows) {
+        const schedule = getStoredSchedule(row.schedule, row.intervalDays);
+        if (schedule && isUpdateDue(schedule, row.lastUpdate)) {
+            if (!pages[row.page]) {
+                pages[row.page] = new Set();
+            }
+            pages[row.page].add(row.queryId);
+        }
+    }
+    const result: Record<string, Query[]> = {};
+    for (const [page, queryIds] of Object.entries(pages)) {
+        const queries = await fetchQueriesForPage(page);
+        result[page] = queries.filter(q => queryIds.has(q.queryId) || queryIds.has(getLegacyQueryId(q)));
+    }
+    return result;
 }
@@ -2,8 +2,10 @@ import {BOT_NAME, Query, getQueriesFromText, SUBSCRIPTIONS_CATEGORY, TEMPLATE} f
 import {bot, commonswikidb, log} from "../botbase";
 import {MwnDate} from "../../mwn/src/date";
 import {MetadataStore} from "./MetadataStore";
+import {isUpdateDue} from "./schedule";
 
 export class NoMetadataStore implements MetadataStore {
+    recordsRunTimes = false;
     wikidb: commonswikidb;
 
     async init() {
@@ -20,6 +22,22 @@ export class NoMetadataStore implements MetadataStore {
 
     async updateLastTimestamp() {}
 
+    async getRowDigests() {
+        return null;
+    }
+
+    async recordFailure() {
+        return 0;
+    }
+
+    async getRunHistory() {
+        return [];
+    }
+
+    async getStoredQueries() {
+        return [];
+    }
+
     async getQueriesToRun(): Promise<Record<string, Query[]>> {
         // Get the date of the bot's last edit to each of the subscribed pages
         // The API doesn't have an efficient query for this, so using the DB instead
@@ -54,8 +72,8 @@ export class NoMetadataStore implements MetadataStore {
     }
 
     checkIfUpdateDue(lastUpdate: MwnDate, query: Query): boolean {
-        const interval = query.config.interval;
-        if (isNaN(interval)) {
+        const schedule = query.getUpdateSchedule();
+        if (!schedule) {
             log(`[+] Skipping ${query} as periodic updates are not configured`);
             return false;
         } else if (!query.page.startsWith("Commons:")) {
@@ -63,15 +81,11 @@ export class NoMetadataStore implements MetadataStore {
             return false;
         }
 
-        if (!lastUpdate) {
-            return true;
-        }
-        let daysDiff = (new bot.Date().getTime() - lastUpdate.getTime())/8.64e7;
-        const isUpdateDue = daysDiff >= interval - 0.5;
-        if (!isUpdateDue) {
+        const isDue = isUpdateDue(schedule, lastUpdate || null);
+        if (!isDue) {
             log(`[+] Skipping ${query} as update is not due.`);
         }
-        return isUpdateDue;
+        return isDue;
     }
 
 }
@@ -0,0 +1,174 @@
+import {FAILURE_SUSPENSION_THRESHOLD, Query} from "./app";
+import {fetchDueQueries, getTemplateMd5, MetadataStore, RunRecord, StoredQuery} from "./MetadataStore";
+import {setDifference} from "../utils";
+import {RowDigests} from "./row-digests";
+
+/**
+ * Metadata store in a local SQLite file, with the same tables as the ToolsDB database. For
+ * running db-tabulator and the eventstream metadata maintainer without Toolforge access.
+ * Select it with DBTB_METADATA_STORE=sqlite or --metadataStore=sqlite.
+ */
+export class SqliteMetadataStore implements MetadataStore {
+    recordsRunTimes = true;
+    db: import('sqlite').Database;
+    file: string;
+
+    constructor(file = process.env.DBTB_SQLITE_FILE || __dirname + '/dbreports.db') {
+        this.file = file;
+    }
+
+    async init() {
+        // Import dynamically as this has native dependencies
+        const {open} = await import('sqlite');
+        const sqlite3 = await import('sqlite3');
+        this.db = await open({ filename: this.file, driver: sqlite3.Database });
+        await this.db.exec(`
+            CREATE TABLE IF NOT EXISTS dbreports(
+                page TEXT NOT NULL,
+                queryId TEXT NOT NULL,
+                idx INTEGER,
+                templateMd5 TEXT,
+                intervalDays REAL,
+                schedule TEXT,
+                lastUpdate TEXT,
+                rowDigests TEXT,
+                consecutiveFailures INTEGER NOT NULL DEFAULT 0,
+                lastError TEXT,
+                PRIMARY KEY (page, queryId)
+            );
+            CREATE TABLE IF NOT EXISTS dbreports_history(
+                page TEXT,
+                queryId TEXT,
+                idx INTEGER,
+                runAt TEXT,
+                rowCount INTEGER,
+                queryRuntime REAL,
+                resultHash TEXT
+            );
+            CREATE INDEX IF NOT EXISTS dbreports_history_query ON dbreports_history(page, queryId, runAt);
+        `);
+    }
+
+    async updateMetadata(page: string, queries: Query[]) {
+        const existingQueryIds = new Set((await this.db.all(
+            `SELECT queryId FROM dbreports WHERE page = ?`, [page]
+        )).map(row => row.queryId as string));
+        const newQueryIds = new Set(queries.map(q => q.queryId));
+
+        await this.transaction(async () => {
+            for (let queryId of setDifference(existingQueryIds, newQueryIds)) {
+                await this.db.run('DELETE FROM dbreports WHERE page = ? AND queryId = ?', [page, queryId]);
+            }
+            // Don't delete lastUpdate values of unchanged reports when updating metadata.
+            // An edit to the template lifts a suspension for failures, even if the SQL is unchanged.
+            for (let query of queries) {
+                const intervalDays = isNaN(query.config.interval) ? null : query.config.interval;
+                const schedule = query.config.schedule?.type === 'cron' ? query.config.schedule.spec : null;
+                await this.db.run(`
+                    INSERT INTO dbreports(page, queryId, idx, templateMd5, intervalDays, schedule, lastUpdate)
+                    VALUES (?, ?, ?, ?, ?, ?, NULL)
+                    ON CONFLICT (page, queryId) DO UPDATE SET
+                        consecutiveFailures = CASE WHEN templateMd5 IS excluded.templateMd5 THEN consecutiveFailures ELSE 0 END,
+                        idx = excluded.idx, templateMd5 = excluded.templateMd5,
+                        intervalDays = excluded.intervalDays, schedule = excluded.schedule
+                `, [query.page, query.queryId, query.idx, getTemplateMd5(query), intervalDays, schedule]);
+            }
+        });
+    }
+
+    async transaction(func: () => Promise<void>) {
+        await this.db.run('BEGIN');
+        try {
+            await func();
+            await this.db.run('COMMIT');
+        } catch (e) {
+            await this.db.run('ROLLBACK');
+            throw e;
+        }
+    }
+
+    /**
+     * Remove pages from database, except for the pages present in the passed-in set.
+     */
+    async removeOthers(pages: Set<string>) {
+        const questionMarks = Array(pages.size).fill('?').join(',');
+        await this.db.run(`DELETE FROM dbreports WHERE page NOT IN (${questionMarks})`, [...pages]);
+    }
+
+    async getAllPages() {
+        const rows = await this.db.all(`SELECT DISTINCT page FROM dbreports`);
+        return rows.map(row => row.page) as string[];
+    }
+
+    async getStoredQueries(): Promise<StoredQuery[]> {
+        return this.db.all(`SELECT page, queryId, idx, templateMd5 FROM dbreports`);
+    }
+
+    async getQueriesToRun() {
+        const data = await this.db.all(`
+            SELECT page, queryId, intervalDays, schedule, lastUpdate FROM dbreports
+            WHERE (intervalDays IS NOT NULL OR schedule IS NOT NULL)
+              AND idx != -1
+              AND page LIKE 'Commons:%'
+              AND consecutiveFailures < ?
+        `, [FAILURE_SUSPENSION_THRESHOLD]);
+        return fetchDueQueries(data.map(row => ({
+            page: row.page,
+            queryId: row.queryId,
+            intervalDays: row.intervalDays,
+            schedule: row.schedule,
+            lastUpdate: row.lastUpdate ? new Date(row.lastUpdate) : null,
+        })));
+    }
+
+    async updateLastTimestamp(query: Query): Promise<void> {
+        const now = new Date().toISOString();
+        await this.transaction(async () => {
+            await this.db.run(
+                `UPDATE dbreports SET lastUpdate = ?, consecutiveFailures = 0, lastError = NULL
+                WHERE page = ? AND queryId = ?`
+                , [now, query.page, query.queryId]);
+            if (query.rowDigestsChanged) {
+                await this.db.run(`UPDATE dbreports SET rowDigests = ? WHERE page = ? AND queryId = ?`
+                    , [query.rowDigests ? JSON.stringify(query.rowDigests) : null, query.page, query.queryId]);
+            }
+            await this.db.run(`
+                INSERT INTO dbreports_history(page, queryId, idx, runAt, rowCount, queryRuntime, resultHash)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `, [query.page, query.queryId, query.idx, now, query.rowCount ?? null, query.queryRuntime ?? null, query.resultHash ?? null]);
+        });
+    }
+
+    async getRowDigests(query: Query): Promise<RowDigests | null> {
+        const row = await this.db.get(
+            `SELECT rowDigests FROM dbreports WHERE page = ? AND queryId = ?`
+            , [query.page, query.queryId]);
+        return row?.rowDigests ? JSON.parse(row.rowDigests) : null;
+    }
+
+    async recordFailure(query: Query, error: string): Promise<number> {
+        await this.db.run(`
+            UPDATE dbreports SET consecutiveFailures = consecutiveFailures + 1, lastError = ?
+            WHERE page = ? AND queryId = ?
+        `, [error.slice(0, 255), query.page, query.queryId]);
+        const row = await this.db.get(
+            `SELECT consecutiveFailures FROM dbreports WHERE page = ? AND queryId = ?`
+            , [query.page, query.queryId]);
+        return row?.consecutiveFailures ?? 0;
+    }
+
+    async getRunHistory(query: Query, limit: number): Promise<RunRecord[]> {
+        const rows = await this.db.all(`
+            SELECT runAt, rowCount, queryRuntime, resultHash FROM dbreports_history
+            WHERE page = ? AND queryId = ?
+            ORDER BY runAt DESC
+            LIMIT ?
+        `, [query.page, query.queryId, limit]);
+        return rows.map(row => ({
+            timestamp: new Date(row.runAt),
+            rowCount: row.rowCount,
+            queryRuntime: row.queryRuntime,
+            resultHash: row.resultHash,
+        }));
+    }
+}
@@ -1,13 +1,60 @@
 import {argv, bot, emailOnError, log, Mwn, TextExtractor} from "../botbase";
-import {commonswikidb, SQLError} from "../db";
+import {db, SQLError} from "../db";
 import {Template} from "../../mwn/build/wikitext";
 import {arrayChunk, createLogStream, lowerFirst, readFile, stripOuterNowikis, writeFile} from "../utils";
 import {NS_CATEGORY, NS_FILE, NS_MAIN} from "../namespaces";
 import {formatSummary} from "../reports/commons";
-import {MetadataStore} from "./MetadataStore";
+import {MetadataStore, RunRecord} from "./MetadataStore";
 import {HybridMetadataStore} from "./HybridMetadataStore";
+import {HybridRunLog, RunLog, RunOutcome} from "./run-log";
 import {applyJsPostProcessing, processQueriesExternally} from "./postprocess";
 import {EventEmitter} from "events";
+import * as crypto from "crypto";
+import {bindNamedParams, expandSnippets, normalizeSql, SqlPreprocessError} from "./sql-preprocess";
+import {DEFAULT_DATABASE, getDatabase, getMonitorDatabase, getReplagMessage} from "./databases";
+import {JoinType, mergeResultSets, MergeError} from "./merge";
+import {
+	canLookUpUserIds,
+	COLUMN_TYPES,
+	ColumnType,
+	fetchUserNames,
+	formatBytes,
+	formatNumber,
+	formatTimestamp,
+	formatUserLink
+} from "./column-types";
+import {FormatOptions, formatters, GALLERY_MODES, ResultFormatter} from "./formatters";
+import {describeWorstTable, estimateCost, ExplainRow, formatRowCount, isWhitelistedForCost} from "./cost-estimate";
+import {
+	EXCERPT_MODES,
+	ExcerptMode,
+	fetchCaptions,
+	fetchCategories,
+	fetchFileDescriptions
+} from "./excerpt-sources";
+import {GroupOrder, groupRows, paginateGroups, RowGroup} from "./grouping";
+import {intervalSchedule, parseSchedule, Schedule, ScheduleError} from "./schedule";
+import {
+	AGGREGATE_FUNCTIONS,
+	AggregateFunction,
+	aggregateColumn,
+	evaluateExpression,
+	Expression,
+	ExpressionError,
+	maxColumnReference,
+	parseExpression
+} from "./calculations";
+import {
+	computeRowDigests,
+	computeRowKeys,
+	describeRowChanges,
+	diffRowDigests,
+	hashRowDigests,
+	isNoopEdit,
+	RowDigests,
+	stringifyCell,
+	TREND_TABLE_CLASS
+} from "./row-digests";
 
 export const BOT_NAME = 'MDanielsBot';
 export const TEMPLATE = 'Database report';
@@ -16,15 +63,30 @@ export const SUBSCRIPTIONS_CATEGORY = 'MDanielsBot database report subscriptions
 export const QUERY_TIMEOUT = 1500;
 export const CONCURRENCY = 5;
 export const MAX_SUBPAGES = 20;
+export const MAX_REMOVED_ROWS_LISTED = 50;
+/** Maximum length of the id parameter */
+export const MAX_QUERY_ID_LENGTH = 64;
+export const MAX_TREND_RUNS = 30;
+/** Periodic updates of a query are suspended after it fails these many times in a row */
+export const FAILURE_SUSPENSION_THRESHOLD = parseInt(process.env.DBTB_FAILURE_THRESHOLD) || 3;
+export const WEB_ENDPOINT = 'https://mdanielsbot.toolforge.org/database-report';
 export const SHUTOFF_PAGE = 'User:MDanielsBot/Shutoff/Database reports';
+/** Shared SQL snippets are subpages of this, included in queries as /* include: name *\/ */
+export const SNIPPETS_PAGE_PREFIX = 'Template:Database report/snippets/';
+/** Maximum number of rows a query can be estimated to examine (as per EXPLAIN) for it to be run */
+export const QUERY_COST_BUDGET = parseInt(process.env.DBTB_COST_BUDGET) || 500_000_000;
+/** Attempts to get the plan of a running query for the cost check, SHOW_EXPLAIN_INTERVAL ms apart */
+const SHOW_EXPLAIN_ATTEMPTS = 10;
+const SHOW_EXPLAIN_INTERVAL = 200;
+/** Pages linked from here are exempt from QUERY_COST_BUDGET */
+export const COST_WHITELIST_PAGE = 'User:MDanielsBot/Database reports cost whitelist';
+/** Seconds each of the CONCURRENCY lanes of a cron run has for queries, as the job runs every 4 hours */
+export const RUN_TIME_BUDGET = parseInt(process.env.DBTB_TIME_BUDGET) || 3 * 3600;
 export const FAKE_INPUT_FILE = 'fake-configs.wikitext';
 export const FAKE_OUTPUT_FILE = 'fake-output.wikitext';
 
-const db = new commonswikidb({
-	connectionLimit: CONCURRENCY
-});
-
 export const metadataStore: MetadataStore = new HybridMetadataStore();
+export const runLog: RunLog = new HybridRunLog();
 
 export async function fetchQueries(): Promise<Record<string, Query[]>> {
 	if (argv.fake) {
@@ -42,16 +104,40 @@ export function getQueriesFromText(text: string, title: string): Query[] {
 		log(`[E] Failed to find template on ${title}`);
 		return [];
 	}
-	return templates.map((template, idx) =>
-		new Query(template, title, idx + 1, !!template.getValue('postprocess_js')?.trim()));
+	return assignQueryIds(templates.map((template, idx) =>
+		new Query(template, title, idx + 1, !!template.getValue('postprocess_js')?.trim())));
+}
+
+/**
+ * Make query IDs unique within the page. Reports with the same SQL and no id parameter, or the
+ * same id, are told apart by their order.
+ */
+export function assignQueryIds(queries: Query[]): Query[] {
+	const counts: Map<string, number> = new Map();
+	for (let query of queries) {
+		const count = (counts.get(query.queryId) ?? 0) + 1;
+		counts.set(query.queryId, count);
+		if (count > 1) {
+			if (query.queryId.startsWith('id:')) {
+				query.warnings.push(`Another report on this page has the same <code>id</code> "${query.queryId.slice(3)}". Use distinct ids to keep the reports apart.`);
+			}
+			query.queryId += '#' + count;
+		}
+	}
+	return queries;
 }
 
+/**
+ * @param allQueries - queries to run, keyed by the page they are on. Other queries on the pages
+ * are not run.
+ * @param notifier
+ */
 export async function processQueries(allQueries: Record<string, Query[]>, notifier?: EventEmitter) {
 	await bot.batchOperation(Object.entries(allQueries), async ([page, queries]) => {
 		if (queries.filter(q => q.needsExternalRun).length > 0) {
 			// Needs an external process for security
 			log(`[+] Processing page ${page} using child process`);
-			await processQueriesExternally(page, notifier);
+			await processQueriesExternally(page, queries.map(q => q.idx), notifier);
 		} else {
 			log(`[+] Processing page ${page}`);
 			await processQueriesForPage(queries);
@@ -59,15 +145,37 @@ export async function processQueries(allQueries: Record<string, Query[]>, notifi
 	}, CONCURRENCY);
 }
 
-export async function fetchQueriesForPage(page: string): Promise<Query[]> {
+/**
+ * @param page
+ * @param indices - indices of the queries to get (1-based), all queries on the page if not given
+ */
+export async function fetchQueriesForPage(page: string, indices?: number[]): Promise<Query[]> {
+	let queries: Query[];
 	if (argv.fake) {
-		return getQueriesFromText(readFile(FAKE_INPUT_FILE), 'Fake-Configs');
+		queries = getQueriesFromText(readFile(FAKE_INPUT_FILE), 'Fake-Configs');
+	} else {
+		let text = (await bot.read(page, { redirects: false }))?.revisions?.[0]?.content;
+		if (!text) {
+			return [];
+		}
+		queries = getQueriesFromText(text, page);
 	}
-	let text = (await bot.read(page, { redirects: false }))?.revisions?.[0]?.content;
-	if (!text) {
-		return [];
+	return indices ? queries.filter(q => indices.includes(q.idx)) : queries;
+}
+
+/**
+ * Parse a list of query indices, as given in the idx parameter of the web endpoint
+ * or the --idx argument, eg. "2" or "1,3".
+ * @returns undefined if no valid indices are given, meaning all queries
+ */
+export function parseQueryIndices(value: string | number | undefined): number[] | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
 	}
-	return getQueriesFromText(text, page);
+	const indices = String(value).split(',')
+		.map(e => parseInt(e.trim()))
+		.filter(e => !isNaN(e) && e > 0);
+	return indices.length ? [...new Set(indices)].sort((a, b) => a - b) : undefined;
 }
 
 // All queries are on same page. Processing is done sequentially
@@ -99,9 +207,18 @@ export class Query extends EventEmitter {
 	/** Index of the query on the page (1 if only one query on the page) */
 	idx: number;
 
+	/**
+	 * Identity of the query in stored metadata, which unlike idx doesn't change when reports
+	 * are reordered: the id parameter if given, else a hash of the normalized SQL.
+	 */
+	queryId: string;
+
 	/** Time taken to run the SQL, formatted to 2 decimal places */
 	queryRuntime: string;
 
+	/** Number of rows the SQL is estimated to examine, as per SHOW EXPLAIN (if the plan could be had) */
+	costEstimate: number;
+
 	/** Represents the {{database report}} template placed on the page */
 	template: Template;
 
@@ -110,16 +227,41 @@ export class Query extends EventEmitter {
 		sql?: string;
 		outputPage?: string;
 		wikilinks?: Array<{columnIndex: number, namespace: string, showNamespace: boolean}>;
-		excerpts?: Array<{srcIndex: number, destIndex: number, namespace: string, charLimit: number, charHardLimit: number}>;
+		excerpts?: Array<{srcIndex: number, destIndex: number, namespace: string, charLimit: number, charHardLimit: number, mode: ExcerptMode, count: number}>;
+		excerptLang?: string;
 		comments?: number[];
+		columnTypes?: Array<{columnIndex: number, type: ColumnType}>;
 		pagination?: number;
 		maxPages?: number;
 		removeUnderscores?: number[];
 		hiddenColumns?: number[];
 		interval?: number;
+		schedule?: Schedule;
 		silent?: boolean;
+		outputFormat?: string;
+		highlightNew?: number;
+		trend?: number;
+		params?: Record<string, string>;
+		db?: string;
+		sqlBlocks?: Array<{sql: string, db: string}>;
+		joinKey?: string;
+		joinType?: JoinType;
+		galleryColumn?: number;
+		galleryCaptionColumns?: number[];
+		galleryMode?: string;
+		groupBy?: number;
+		groupTemplate?: string;
+		groupOrder?: GroupOrder;
+		computedColumns?: Array<{name: string, expression: Expression}>;
+		summaryRow?: Array<{columnIndex: number, func: AggregateFunction}>;
 	} = {};
 
+	/** Databases the query runs on, as per the db parameters */
+	databases: db[] = [];
+
+	/** Produces the report body from the result rows, as per output_format */
+	formatter: ResultFormatter;
+
 	isValid = true;
 
 	/** Warnings generated while template parsing or result formatting, to be added to the page */
@@ -128,16 +270,50 @@ export class Query extends EventEmitter {
 	/** Total number of pages in the report (for paginated queries) */
 	numPages: number;
 
+	/** Rows of the pages formatted so far, as summary_row aggregates are over all pages */
+	summarizedRows: Array<Record<string, string>> = [];
+
 	/** Invocation mode */
 	context: string;
 
 	/** Internal tracking: for edit summary */
 	endNotFound = false;
 
+	/** Internal tracking: for run log */
+	saveSkipped = false;
+	errorCode: string;
+	errorMessage: string;
+
+	/** Digests of the rows in the current result, stored for comparison in the next run */
+	rowDigests: RowDigests;
+
+	/** Summary of row changes since the last run, for edit summary */
+	rowChanges = '';
+
+	/** Row digests stored by the last run, if available */
+	previousRowDigests: RowDigests;
+
+	/** Whether the row digests differ from the stored ones, and so need to be stored */
+	rowDigestsChanged = true;
+
+	/** Number of rows in the query result */
+	rowCount: number;
+
+	/** Hash of the query result, for the run history */
+	resultHash: string;
+
+	/** Previous runs of the query, latest first (only fetched if trend is configured) */
+	runHistory: RunRecord[] = [];
+
 	/** Internal tracking: for queries with JS postprocessing enabled */
 	needsExternalRun = false;
 	needsForceKill = false;
 
+	/** Dry run: output is kept in previewOutput rather than saved, see preview() */
+	isPreview = false;
+	previewOutput: string | string[];
+	previewError: string;
+
 	constructor(template: Template, page: string, idxOnPage: number, external?: boolean) {
 		super();
 		this.page = page;
@@ -145,6 +321,21 @@ export class Query extends EventEmitter {
 		this.idx = idxOnPage;
 		this.needsExternalRun = external;
 		this.context = getContext();
+		this.queryId = this.getQueryIdBase();
+	}
+
+	getQueryIdBase(): string {
+		const id = this.getTemplateValue('id');
+		if (id) {
+			return 'id:' + id.slice(0, MAX_QUERY_ID_LENGTH);
+		}
+		const sqls = [this.getSql()];
+		for (let i = 1; this.getSql('sql' + i); i++) {
+			sqls.push((this.getTemplateValue('db' + i) || '') + ':' + this.getSql('sql' + i));
+		}
+		const sql = (this.getTemplateValue('db') || DEFAULT_DATABASE) + ':' +
+			sqls.filter(e => e).map(normalizeSql).join('\n');
+		return 'sql:' + crypto.createHash('md5').update(sql).digest('hex');
 	}
 
 	/** Produce events for progress tracking from web UI (if invoked from web endpoint) */
@@ -160,23 +351,113 @@ export class Query extends EventEmitter {
 		try {
 			this.parseQuery();
 			const result = await this.runQuery();
+			await this.compareWithLastRun(result);
 			const resultText = await this.formatResults(result);
 			await this.save(resultText);
 			await metadataStore.updateLastTimestamp(this);
 			this.emit('done-one');
+			await this.recordRun(this.saveSkipped ? 'unchanged' : 'updated');
 		} catch (err) {
-			if (err instanceof HandledError) return;
+			if (err instanceof HandledError) {
+				await this.recordRun('error');
+				return;
+			}
+			this.errorCode = err.code || err.name;
+			this.errorMessage = err.message;
+			await this.recordRun('crashed');
 			emailOnError(err, 'db-tabulator');
 			throw err; // propagate error
 		}
 	}
 
+	async recordRun(outcome: RunOutcome) {
+		const sql = this.config.sqlBlocks?.map(block => block.sql).join('\n');
+		await runLog.record({
+			timestamp: new Date(),
+			page: this.page,
+			idx: this.idx,
+			context: this.context,
+			sqlHash: sql ? crypto.createHash('md5').update(sql).digest('hex') : null,
+			queryRuntime: this.queryRuntime ? parseFloat(this.queryRuntime) : null,
+			rowCount: this.rowCount ?? null,
+			outcome,
+			errorCode: this.errorCode ?? null,
+			errorMessage: this.errorMessage ?? null,
+		}).catch(err => {
+			log(`[E] Failed to record run of ${this} in run log`);
+			log(err);
+		});
+	}
+
+	/**
+	 * Run the query and format the results without saving anything, neither the page nor
+	 * the metadata. Errors which would have been saved to the page are returned instead.
+	 */
+	async preview(): Promise<QueryPreview> {
+		this.isPreview = true;
+		try {
+			if (this.getTemplateValue('postprocess_js')) {
+				// JS postprocessing is only run in a separate process, see processQueriesExternally.
+				// Awaited for the HandledError to be caught below.
+				await this.saveWithError('Previews are not supported for queries using postprocess_js', 'unsupported');
+			}
+			this.parseQuery();
+			const result = await this.runQuery();
+			await this.compareWithLastRun(result);
+			await this.save(await this.formatResults(result));
+		} catch (err) {
+			if (!(err instanceof HandledError)) {
+				throw err;
+			}
+		}
+		return {
+			idx: this.idx,
+			output: this.previewOutput ?? null,
+			error: this.previewError ?? null,
+			warnings: this.warnings,
+			queryRuntime: this.queryRuntime ?? null,
+			numPages: this.numPages ?? null,
+		};
+	}
+
+	/** Schedule of periodic updates, from schedule= or interval=. Null if not updated periodically. */
+	getUpdateSchedule(): Schedule | null {
+		this.parseUpdateSchedule();
+		return this.config.schedule ?? intervalSchedule(this.config.interval);
+	}
+
+	/**
+	 * Separate from parseQuery() as this is also needed for queries which are not run,
+	 * when checking which are due.
+	 */
+	parseUpdateSchedule() {
+		if (this.config.interval !== undefined) {
+			return; // already parsed
+		}
+		this.config.interval = parseFloat(this.getTemplateValue('interval'));
+		const schedule = this.getTemplateValue('schedule');
+		if (schedule) {
+			try {
+				this.config.schedule = parseSchedule(schedule);
+				if (!isNaN(this.config.interval)) {
+					this.warnings.push(`Both <code>interval</code> and <code>schedule</code> are given. Using schedule.`);
+				}
+			} catch (err) {
+				if (err instanceof ScheduleError) {
+					this.warnings.push(`Invalid <code>schedule</code> "${schedule}": ${err.message}. Use a cron expression like <code>0 3 * * 1</code> or a spec like <code>Mondays 03:00 UTC</code>.`);
+				} else {
+					throw err;
+				}
+			}
+		}
+	}
+
 	getTemplateValue(param: string) {
 		return this.template.getValue(param)?.replace(/<!--.*?-->/g, '').trim();
 	}
 
-	getSql() {
-		let sql = this.getTemplateValue('sql');
+	getSql(param = 'sql') {
+		let sql = this.getTemplateValue(param);
 		if (/^\s*<nowiki ?>/.test(sql)) {
 			return stripOuterNowikis(sql);
 		} else {
@@ -189,16 +470,34 @@ export class Query extends EventEmitter {
 
 	// Errors in configs are reported to user through [[Module:Database report]] in Lua
 	parseQuery() {
-		this.config.interval = parseFloat(this.getTemplateValue('interval'));
+		this.parseUpdateSchedule();
+
+		this.config.db = this.getTemplateValue('db') || DEFAULT_DATABASE;
 
 		// Use of semicolons for multiple statements will be flagged as error at query runtime
 		this.config.sql = this.getSql();
+		this.config.sqlBlocks = [];
+		if (this.config.sql) {
+			this.config.sqlBlocks.push({ sql: this.config.sql, db: this.config.db });
+		} else {
+			// Multiple SQL blocks (sql1, sql2, ...) whose results are joined in memory
+			for (let i = 1; this.getSql('sql' + i); i++) {
+				this.config.sqlBlocks.push({
+					sql: this.getSql('sql' + i),
+					db: this.getTemplateValue('db' + i) || this.config.db
+				});
+			}
+			this.config.sql = this.config.sqlBlocks[0]?.sql;
+		}
 
 		if (!this.config.sql) {
 			this.isValid = false;
 			return;
 		}
 
+		this.config.joinKey = this.getTemplateValue('join_key');
+		this.config.joinType = this.getTemplateValue('join_type') === 'inner' ? 'inner' : 'left';
+
 		this.config.wikilinks = this.getTemplateValue('wikilinks')
 			?.split(',')
 			.map(e => {
@@ -216,22 +515,49 @@ export class Query extends EventEmitter {
 			.map(e => parseInt(e.trim()))
 			.filter(e => !isNaN(e)) || [];
 
+		this.config.columnTypes = this.getTemplateValue('column_types')
+			?.split(',')
+			.map(e => {
+				const [columnIndex, type] = e.trim().split(':');
+				return {
+					columnIndex: parseInt(columnIndex),
+					type: type?.trim().toLowerCase() as ColumnType
+				};
+			})
+			.filter(config => {
+				if (!COLUMN_TYPES.includes(config.type)) {
+					this.warnings.push(`Unsupported column type "${config.type}" in <code>column_types</code>. Supported types are: ${COLUMN_TYPES.join(', ')}. Ignoring.`);
+					return false;
+				}
+				return !isNaN(config.columnIndex);
+			}) || [];
+
 		this.config.excerpts = this.getTemplateValue('excerpts')
 			?.split(',')
 			.map(e => {
-				const [srcIndex, destIndex, namespace, charLimit, charHardLimit] = e.trim().split(':');
+				const [srcIndex, destIndex, namespace, charLimit, charHardLimit, mode, count] = e.trim().split(':');
 				return {
 					srcIndex: parseInt(srcIndex),
 					destIndex: destIndex ? parseInt(destIndex) : parseInt(srcIndex) + 1,
 					namespace: namespace || '0',
 					charLimit: charLimit ? parseInt(charLimit) : 250,
-					charHardLimit: charHardLimit ? parseInt(charHardLimit) : 500
+					charHardLimit: charHardLimit ? parseInt(charHardLimit) : 500,
+					mode: (mode?.trim().toLowerCase() || 'lead') as ExcerptMode,
+					// Number of categories, for categories mode
+					count: count ? parseInt(count) : 5
 				};
 			})
 			.filter(config => !isNaN(config.srcIndex) && !isNaN(config.destIndex) && /^c?\d+/i.test(config.namespace) &&
-				!isNaN(config.charLimit) && !isNaN(config.charHardLimit))
+				!isNaN(config.charLimit) && !isNaN(config.charHardLimit) && EXCERPT_MODES.includes(config.mode) &&
+				!isNaN(config.count))
 			|| [];
 
+		const excerptLang = this.getTemplateValue('excerpt_lang')?.toLowerCase();
+		if (excerptLang && !/^[a-z]{2,3}(-[a-z]+)*$/.test(excerptLang)) {
+			this.warnings.push(`Invalid language code "${excerptLang}" in <code>excerpt_lang</code>. Using en.`);
+		}
+		this.config.excerptLang = excerptLang && /^[a-z]{2,3}(-[a-z]+)*$/.test(excerptLang) ? excerptLang : 'en';
+
 		this.config.hiddenColumns = this.getTemplateValue('hide')
 			?.split(',')
 			.map(e => parseInt(e.trim()))
@@ -253,7 +579,7 @@ export class Query extends EventEmitter {
 		let outputPage = this.getTemplateValue('output_page');
 		if (outputPage && isFinite(this.config.pagination)) {
 			let thisTitle = new bot.Title(this.page);
-			let outputTitle = new bot.Title(this.config.outputPage);
+			let outputTitle = new bot.Title(outputPage);
 			if (outputTitle.toText().startsWith(thisTitle.toText() + '/')) {
 				this.config.outputPage = outputPage;
 			}
@@ -261,20 +587,175 @@ export class Query extends EventEmitter {
 
 		this.config.silent = !!this.getTemplateValue('silent');
 
+		this.config.computedColumns = this.getTemplateValue('computed_columns')
+			?.split(';')
+			.filter(e => e.trim())
+			.map(e => {
+				const [name, expressionText] = e.split(/:(.*)/s).map(part => part?.trim());
+				if (!name || !expressionText) {
+					this.warnings.push(`Invalid entry "${e.trim()}" in <code>computed_columns</code>: use the format <code>Column name: expression</code>. Ignoring.`);
+					return null;
+				}
+				try {
+					return { name, expression: parseExpression(expressionText) };
+				} catch (err) {
+					if (err instanceof ExpressionError) {
+						this.warnings.push(`Invalid expression for "${name}" in <code>computed_columns</code>: ${err.message}. Ignoring.`);
+						return null;
+					}
+					throw err;
+				}
+			})
+			.filter(e => e) || [];
+
+		this.config.summaryRow = this.getTemplateValue('summary_row')
+			?.split(',')
+			.map(e => {
+				const [func, columnIndex] = e.split(':').map(part => part.trim());
+				if (!AGGREGATE_FUNCTIONS.includes(func as AggregateFunction) || isNaN(parseInt(columnIndex))) {
+					this.warnings.push(`Invalid entry "${e.trim()}" in <code>summary_row</code>: use the format <code>function:column</code>, with function one of ${AGGREGATE_FUNCTIONS.join(', ')}. Ignoring.`);
+					return null;
+				}
+				return { columnIndex: parseInt(columnIndex), func: func as AggregateFunction };
+			})
+			.filter(e => e) || [];
+
+		this.config.groupBy = parseInt(this.getTemplateValue('group_by'));
+		this.config.groupTemplate = this.getTemplateValue('group_template');
+		const groupOrder = this.getTemplateValue('group_order')?.toLowerCase();
+		if (['asc', 'desc', 'count'].includes(groupOrder)) {
+			this.config.groupOrder = groupOrder as GroupOrder;
+		} else {
+			if (groupOrder) {
+				this.warnings.push(`Unsupported <code>group_order</code> "${groupOrder}". Supported values are: asc, desc, count. Keeping groups in order of appearance.`);
+			}
+			this.config.groupOrder = 'appearance';
+		}
+
+		this.config.highlightNew = parseInt(this.getTemplateValue('highlight_new'));
+
+		this.config.trend = Math.min(MAX_TREND_RUNS, parseInt(this.getTemplateValue('trend'))) || 0;
+
+		this.config.params = Object.fromEntries(this.template.parameters
+			.map(param => String(param.name).trim())
+			.filter(name => /^param_\w+$/.test(name))
+			.map(name => [name.slice('param_'.length), this.getTemplateValue(name)]));
+
+		this.config.outputFormat = (this.getTemplateValue('output_format') || 'wikitable').toLowerCase();
+		this.formatter = formatters[this.config.outputFormat];
+		if (!this.formatter) {
+			this.warnings.push(`Unsupported <code>output_format</code> "${this.config.outputFormat}". Supported formats are: ${Object.keys(formatters).join(', ')}. Using wikitable.`);
+			this.config.outputFormat = 'wikitable';
+			this.formatter = formatters.wikitable;
+		}
+
+		if (this.getTemplateValue('gallery')) {
+			if (!['wikitable', 'gallery'].includes(this.config.outputFormat)) {
+				this.warnings.push(`<code>gallery</code> can't be used with <code>output_format</code> "${this.config.outputFormat}". Ignoring output_format.`);
+			}
+			this.config.outputFormat = 'gallery';
+			this.formatter = formatters.gallery;
+		}
+		if (this.config.outputFormat === 'gallery') {
+			this.config.galleryColumn = parseInt(this.getTemplateValue('gallery')) || 1;
+			this.config.galleryCaptionColumns = this.getTemplateValue('gallery_caption')
+				?.split(',')
+				.map(e => parseInt(e.trim()))
+				.filter(e => !isNaN(e)) || [];
+			const galleryMode = this.getTemplateValue('gallery_mode')?.toLowerCase();
+			if (galleryMode && !GALLERY_MODES.includes(galleryMode)) {
+				this.warnings.push(`Unsupported <code>gallery_mode</code> "${galleryMode}". Supported modes are: ${GALLERY_MODES.join(', ')}.`);
+			} else {
+				this.config.galleryMode = galleryMode;
+			}
+		}
+
 		return this;
 	}
 
 	async runQuery() {
-		let query = `SET STATEMENT max_statement_time = ${QUERY_TIMEOUT} FOR ${this.config.sql.trim()}`;
-		query = this.appendLimit(query);
-		queriesLog(`Page: [[${this.page}]], context: ${this.context}, query: ${query}`);
-		this.emit('query-executing', this.config.sql);
-		return db.timedQuery(query).then(([timeTaken, queryResult]) => {
-			this.queryRuntime = timeTaken.toFixed(2);
-			this.emit('query-executed', this.queryRuntime);
-			log(`[+] ${this}: Took ${this.queryRuntime} seconds`);
-			return queryResult;
-		}).catch(async (err: SQLError) => {
+		let totalTimeTaken = 0;
+		const resultSets = [];
+		// With multiple blocks, the limit is applied after the join, as rows of the first block
+		// can be repeated or dropped by it
+		const applyLimit = this.config.sqlBlocks.length === 1;
+		for (let {sql, db: dbName} of this.config.sqlBlocks) {
+			const [timeTaken, queryResult] = await this.runSql(sql, dbName, applyLimit);
+			totalTimeTaken += timeTaken;
+			resultSets.push(queryResult);
+		}
+		this.queryRuntime = totalTimeTaken.toFixed(2);
+		this.emit('query-executed', this.queryRuntime);
+		log(`[+] ${this}: Took ${this.queryRuntime} seconds`);
+		if (resultSets.length === 1) {
+			return resultSets[0];
+		}
+		try {
+			// Join on first column of the first result if join_key is not given
+			const joinKey = this.config.joinKey || Object.keys(resultSets[0][0] || {})[0];
+			return mergeResultSets(resultSets, joinKey, this.config.joinType).slice(0, this.getRowLimit());
+		} catch (err) {
+			if (err instanceof MergeError) {
+				return this.saveWithError(err.message, 'merge-error');
+			}
+			throw err;
+		}
+	}
+
+	/**
+	 * Run one SQL block of the query on the given database.
+	 * @returns time taken in seconds, and the result rows
+	 */
+	async runSql(sql: string, dbName: string, applyLimit = true): Promise<[number, Array<Record<string, string | number | null>>]> {
+		let database: db, monitor: db;
+		try {
+			database = getDatabase(dbName);
+			monitor = getMonitorDatabase(dbName);
+		} catch (err) {
+			return this.saveWithError(`${err.message}. Use the database name of a wiki (like enwiki or wikidatawiki), or toolsdb:<database name>.`, 'invalid-database');
+		}
+		if (!this.databases.includes(database)) {
+			this.databases.push(database);
+		}
+		let values: string[];
+		const originalSql = sql;
+		try {
+			({ sql, values } = bindNamedParams(
+				await expandSnippets(sql, names => this.fetchSnippets(names)),
+				this.config.params
+			));
+		} catch (err) {
+			if (err instanceof SqlPreprocessError) {
+				return this.saveWithError(err.message, 'sql-preprocess-error');
+			}
+			throw err;
+		}
+		let query = `SET STATEMENT max_statement_time = ${QUERY_TIMEOUT} FOR ${sql.trim()}`;
+		if (applyLimit) {
+			query = this.appendLimit(query);
+		}
+		queriesLog(`Page: [[${this.page}]], context: ${this.context}, db: ${dbName}, query: ${query}` +
+			(values.length ? `, params: ${JSON.stringify(values)}` : ''));
+		this.emit('query-executing', originalSql);
+		let costCheck: Promise<string | null> = Promise.resolve(null);
+		let finished = false;
+		// Use prepared statement if there are bind parameters, as their values are user input
+		const queryPromise = database.timedQueryWithThreadId(
+			threadId => {
+				costCheck = this.checkCost(monitor, threadId, () => finished);
+			},
+			values.length > 0, query, values
+		).finally(() => {
+			finished = true;
+		});
+		return queryPromise.then(async result => {
+			await costCheck;
+			return result;
+		}, async (err: SQLError) => {
+			const costError = await costCheck;
+			if (costError) {
+				return this.saveWithError(costError, 'over-cost-budget');
+			}
 			if (err.sqlMessage) {
 				// SQL server error
 				let message = `SQL Error: ${err.code || ''}: ${err.sqlMessage}`;
@@ -288,18 +769,157 @@ export class Query extends EventEmitter {
 				} else {
 					message += ` – Consider using [https://quarry.wmflabs.org/ Quarry] to to test your SQL.`;
 				}
-				return this.saveWithError(message);
+				return this.saveWithError(message, err.code || 'sql-error');
 			} else {
 				throw err;
 			}
 		});
 	}
 
+	/**
+	 * Estimate the number of rows the query running on connection threadId would examine, from
+	 * its plan as per SHOW EXPLAIN FOR. Plain EXPLAIN isn't permitted on the replica views, as
+	 * the user lacks privileges on the underlying tables. If the estimate is over the budget,
+	 * the query is killed, unless the page is whitelisted.
+	 * @param monitor - pool of the query's database, other than the one running it (see getMonitorDatabase)
+	 * @param threadId
+	 * @param isFinished - whether the query has completed, after which there's nothing to check
+	 * @returns error message if the query was killed
+	 */
+	async checkCost(monitor: db, threadId: number, isFinished: () => boolean): Promise<string | null> {
+		let explainRows: ExplainRow[];
+		let lastError: Error;
+		for (let attempt = 0; !explainRows && attempt < SHOW_EXPLAIN_ATTEMPTS; attempt++) {
+			// The plan is only available once the query is past optimization
+			await bot.sleep(SHOW_EXPLAIN_INTERVAL);
+			if (isFinished()) {
+				return null;
+			}
+			try {
+				explainRows = await monitor.query(`SHOW EXPLAIN FOR ${threadId}`) as ExplainRow[];
+			} catch (err) {
+				lastError = err;
+			}
+		}
+		if (!explainRows) {
+			if (!isFinished()) {
+				log(`[W] Couldn't get query plan of ${this}, running without a cost check: ${lastError?.message}`);
+			}
+			return null;
+		}
+		const estimate = estimateCost(explainRows);
+		this.costEstimate = (this.costEstimate || 0) + estimate.rows;
+		if (estimate.rows <= QUERY_COST_BUDGET) {
+			return null;
+		}
+		const whitelisted = await isWhitelistedForCost(this.page, COST_WHITELIST_PAGE).catch(err => {
+			log(`[E] Failed to read ${COST_WHITELIST_PAGE}`);
+			log(err);
+			return false;
+		});
+		if (whitelisted) {
+			log(`[+] ${this} is estimated to examine ${estimate.rows} rows, running anyway as it is whitelisted`);
+			return null;
+		}
+		log(`[W] Killing ${this}, estimated to examine ${estimate.rows} rows`);
+		await monitor.query(`KILL QUERY ${threadId}`).catch(err => {
+			log(`[E] Failed to kill ${this}: ${err.message}`);
+		});
+		return `The query is estimated to examine about ${formatRowCount(estimate.rows)} rows, ` +
+			`more than the limit of ${formatRowCount(QUERY_COST_BUDGET)}. ${describeWorstTable(estimate)} ` +
+			`Consider adding conditions on indexed columns, or splitting the report. ` +
+			`Reports that need to run anyway can be listed at [[${COST_WHITELIST_PAGE}]].`;
+	}
+
+	async compareWithLastRun(result: Array<Record<string, any>>) {
+		// Rows are identified by the highlight_new column if given, otherwise by the first column
+		this.rowDigests = computeRowDigests(result, this.config.highlightNew || 1);
+		this.previousRowDigests = await metadataStore.getRowDigests(this).catch(err => {
+			log(`[E] Failed to get row digests of last run of ${this}`);
+			log(err);
+			return null;
+		});
+		if (this.previousRowDigests) {
+			this.rowChanges = describeRowChanges(diffRowDigests(this.previousRowDigests, this.rowDigests));
+		}
+		this.rowCount = result.length;
+		this.resultHash = hashRowDigests(this.rowDigests);
+		this.rowDigestsChanged = !this.previousRowDigests || hashRowDigests(this.previousRowDigests) !== this.resultHash;
+		if (this.config.trend > 0) {
+			// Current run is also shown in the trend, so fetch one less
+			this.runHistory = await metadataStore.getRunHistory(this, this.config.trend - 1).catch(err => {
+				log(`[E] Failed to get run history of ${this}`);
+				log(err);
+				return [];
+			});
+		}
+	}
+
+	/**
+	 * Rows whose highlight_new column value did not occur in the last run. The column index is
+	 * as in the result after JS postprocessing. Rows with repeated values are keyed as in the
+	 * row digests, so a value occurring more often than in the last run counts as new.
+	 */
+	findNewRows(result: Array<Record<string, any>>): Set<number> {
+		const newRows = new Set<number>();
+		if (!this.config.highlightNew || !this.previousRowDigests) {
+			return newRows;
+		}
+		const keys = computeRowKeys(result, this.config.highlightNew);
+		result.forEach((row, rowIdx) => {
+			if (Object.values(row).length >= this.config.highlightNew && !(keys[rowIdx] in this.previousRowDigests)) {
+				newRows.add(rowIdx);
+			}
+		});
+		return newRows;
+	}
+
+	/**
+	 * List of key column values of rows which disappeared since the last run (highlight_new)
+	 */
+	makeRemovedRowsSection(): string {
+		if (!this.config.highlightNew || !this.previousRowDigests) {
+			return '';
+		}
+		const removed = diffRowDigests(this.previousRowDigests, this.rowDigests).removed;
+		if (removed.length === 0) {
+			return '';
+		}
+		const shown = removed.slice(0, MAX_REMOVED_ROWS_LISTED);
+		return `\n'''Removed since last update (${removed.length}):'''\n` +
+			shown.map(key => `* <nowiki>${key.replace(/</g, '&lt;')}</nowiki>\n`).join('') +
+			(removed.length > shown.length ? `* ... and ${removed.length - shown.length} more\n` : '');
+	}
+
+	/**
+	 * @param names - snippet names, as used in include comments
+	 * @returns SQL of the snippets keyed by name. Snippets whose pages don't exist are left out.
+	 */
+	async fetchSnippets(names: string[]): Promise<Record<string, string>> {
+		const snippets: Record<string, string> = {};
+		const pageNames = names.map(name => SNIPPETS_PAGE_PREFIX + name);
+		for await (let pg of bot.readGen(pageNames)) {
+			if (pg.invalid || pg.missing) continue;
+			let text = pg.revisions[0].content.replace(/<noinclude>.*?<\/noinclude>/gs, '');
+			let codeBlock = text.match(/<syntaxhighlight[^>]*>(.*?)<\/syntaxhighlight>/s);
+			let name = names[pageNames.findIndex(pageName => new bot.Title(pageName).toText() === pg.title)];
+			if (name !== undefined) {
+				snippets[name] = codeBlock ? codeBlock[1].trim() : stripOuterNowikis(text.trim());
+			}
+		}
+		return snippets;
+	}
+
+	/** Maximum number of rows shown in the report, across all pages */
+	getRowLimit(): number {
+		return Number.isFinite(this.config.pagination) ? this.config.pagination * this.config.maxPages : Infinity;
+	}
+
 	appendLimit(query: string): string {
 		if (!Number.isFinite(this.config.pagination)) {
 			return query;
 		}
-		let proposedLimit = this.config.pagination * this.config.maxPages;
+		let proposedLimit = this.getRowLimit();
 
 		let endRgx = /(?:limit\s+(\d+))?;?\s*$/i; // can either the limit clause or just a semicolon
 		let matchResult = query.match(endRgx);
@@ -325,10 +945,10 @@ export class Query extends EventEmitter {
 	/**
 	 * Add column at given `columnIdx`. Move existing columns at columnIdx and later one place rightwards.
 	 */
-	addColumn(result: Array<Record<string, string>>, columnIdx: number, contents: string[]): Array<Record<string, string>> {
+	addColumn(result: Array<Record<string, string>>, columnIdx: number, contents: string[], columnName = 'Excerpt'): Array<Record<string, string>> {
 		return result.map((row, idx) => {
 			let newRow = Object.entries(row);
-			newRow.splice(columnIdx - 1, 0, ['Excerpt', contents[idx]]);
+			newRow.splice(columnIdx - 1, 0, [columnName, contents[idx]]);
 			return Object.fromEntries(newRow);
 		});
 	}
@@ -341,17 +961,25 @@ export class Query extends EventEmitter {
 		});
 	}
 
-	async fetchExcerpts(pages: string[], charLimit: number, charHardLimit: number): Promise<string[]> {
+	async fetchExcerpts(pages: string[], charLimit: number, charHardLimit: number, mode: ExcerptMode = 'lead', count = 5): Promise<string[]> {
 		let excerpts: Record<string, string> = {};
-		for (let pageSet of arrayChunk(pages, 100)) {
-			for await (let pg of bot.readGen(pageSet, {
-				rvsection: '0',
-				redirects: false
-			})) {
-				if (pg.invalid || pg.missing) {
-					excerpts[pg.title] = '';
-				} else {
-					excerpts[pg.title] = TextExtractor.getExtract(pg.revisions[0].content, charLimit, charHardLimit);
+		if (mode === 'description') {
+			excerpts = await fetchFileDescriptions(pages, this.config.excerptLang, charLimit, charHardLimit);
+		} else if (mode === 'caption') {
+			excerpts = await fetchCaptions(pages, this.config.excerptLang);
+		} else if (mode === 'categories') {
+			excerpts = await fetchCategories(pages, count);
+		} else {
+			for (let pageSet of arrayChunk(pages, 100)) {
+				for await (let pg of bot.readGen(pageSet, {
+					rvsection: '0',
+					redirects: false
+				})) {
+					if (pg.invalid || pg.missing) {
+						excerpts[pg.title] = '';
+					} else {
+						excerpts[pg.title] = TextExtractor.getExtract(pg.revisions[0].content, charLimit, charHardLimit);
+					}
 				}
 			}
 		}
@@ -368,10 +996,37 @@ export class Query extends EventEmitter {
 	}
 
 	async formatResults(result) {
+		this.summarizedRows = [];
 
 		if (result.length === 0) {
+			if (this.hasRawOutput()) {
+				this.numPages = 1;
+				return this.formatter.format([], this);
+			}
 			return 'No items retrieved.'; // XXX
 		}
+		if (this.config.groupBy) {
+			const numColumns = Object.keys(result[0]).length;
+			if (this.config.groupBy > numColumns || this.config.groupBy < 1) {
+				this.warnings.push(`Found "${this.config.groupBy}" in <code>group_by</code> though the table only has ${numColumns} column{{subst:plural:${numColumns}||s}}. Ignoring.`);
+				this.config.groupBy = NaN;
+			} else if (!this.hasRawOutput()) {
+				// Pages are filled with whole groups, so a group never gets split across pages
+				const groups = groupRows(result, row => stringifyCell(Object.values(row)[this.config.groupBy - 1]), this.config.groupOrder);
+				const resultSets = paginateGroups(groups, this.config.pagination).slice(0, this.config.maxPages);
+				if (resultSets.length === 1) {
+					this.numPages = 1;
+					return this.formatResultSet(resultSets[0], 0);
+				}
+				this.numPages = resultSets.length;
+				const resultTexts: string[] = [];
+				let pageNumber = 1;
+				for (let resultSet of resultSets) {
+					resultTexts.push(await this.formatResultSet(resultSet, pageNumber++));
+				}
+				return resultTexts;
+			}
+		}
 		if (result.length > this.config.pagination) {
 			const resultSets = arrayChunk(result, this.config.pagination).slice(0, this.config.maxPages);
 			this.numPages = resultSets.length;
@@ -391,11 +1046,7 @@ export class Query extends EventEmitter {
 		let numColumns = Object.keys(result[0]).length;
 		for (let i = 1; i <= numColumns; i++) {
 			// Stringify everything
-			result = this.transformColumn(result, i, (value: string | number | null | Date) => {
-				if (value === null) return '';
-				if (value instanceof Date) return value.toISOString();
-				return String(value);
-			});
+			result = this.transformColumn(result, i, stringifyCell);
 		}
 		if (this.getTemplateValue('postprocess_js')) {
 			const jsCode = stripOuterNowikis(this.getTemplateValue('postprocess_js'));
@@ -407,8 +1058,56 @@ export class Query extends EventEmitter {
 			}
 		}
 
+		// Computed columns are added at the end, so that later ones can refer to earlier ones
+		for (let {name, expression} of this.config.computedColumns) {
+			if (name in result[0]) {
+				this.warnings.push(`Computed column "${name}" has the same name as an existing column. Ignoring.`);
+				continue;
+			}
+			if (maxColumnReference(expression) > numColumns) {
+				this.warnings.push(`Computed column "${name}" refers to column ${maxColumnReference(expression)} though the table only has ${numColumns} column{{subst:plural:${numColumns}||s}} before it.`);
+			}
+			result = this.addColumn(result, numColumns + 1, result.map(row => {
+				return evaluateExpression(expression, Object.values(row));
+			}), name);
+			numColumns++;
+		}
+
+		const newRowIndices = this.findNewRows(result);
+
+		// Group labels are taken before any column transformations. Rows were put together by group
+		// in formatResults, but postprocess_js could have changed the order.
+		let groups: RowGroup<number>[] = [];
+		if (this.config.groupBy && !this.hasRawOutput()) {
+			groups = groupRows(result.map((row, rowIdx) => rowIdx), rowIdx => String(Object.values(result[rowIdx])[this.config.groupBy - 1] ?? ''));
+		}
+
+		// Aggregates are calculated before the cells are formatted, for each group if grouped.
+		// They are keyed by column name, as column numbers change in the following steps.
+		// Groups are never split across pages, but otherwise the aggregates are over the rows of
+		// all pages and only shown on the last one.
+		let summaryValues: Array<Record<string, string>> = [];
+		if (!groups.length) {
+			this.summarizedRows = this.summarizedRows.concat(result);
+		}
+		const isLastPage = pageNumber === 0 || pageNumber === this.numPages;
+		if (this.config.summaryRow.length && !this.hasRawOutput() && (groups.length || isLastPage)) {
+			const columnNames = Object.keys(result[0]);
+			const validSummaryConfig = this.config.summaryRow.filter(({columnIndex}) => {
+				if (columnIndex > numColumns || columnIndex < 1) {
+					this.warnings.push(`Found "${columnIndex}" in <code>summary_row</code> though the table only has ${numColumns} column{{subst:plural:${numColumns}||s}}. Ignoring.`);
+					return false;
+				}
+				return true;
+			});
+			const rowSets = groups.length ? groups.map(group => group.rows.map(rowIdx => result[rowIdx])) : [this.summarizedRows];
+			summaryValues = rowSets.map(rows => Object.fromEntries(validSummaryConfig.map(({columnIndex, func}) => {
+				return [columnNames[columnIndex - 1], aggregateColumn(rows, columnIndex, func)];
+			})));
+		}
+
 		// Add excerpts
-		for (let {srcIndex, destIndex, namespace, charLimit, charHardLimit} of this.config.excerpts) {
+		for (let {srcIndex, destIndex, namespace, charLimit, charHardLimit, mode, count} of this.config.excerpts) {
 			result = this.transformColumn(result, srcIndex, pageName => pageName.replace(/_/g, ' '));
 			let nsId, nsColNumber;
 			if (!isNaN(parseInt(namespace))) {
@@ -426,7 +1125,7 @@ export class Query extends EventEmitter {
 				} catch (e) { return '::'; } // new bot.Page() failing, use invalid page name so that
 				// fetchExcerpts returns empty string extract
 			});
-			const excerpts = await this.fetchExcerpts(listOfPages, charLimit, charHardLimit);
+			const excerpts = await this.fetchExcerpts(listOfPages, charLimit, charHardLimit, mode, count);
 			result = this.addColumn(result, destIndex, excerpts);
 		}
 
@@ -461,6 +1160,29 @@ export class Query extends EventEmitter {
 			});
 		});
 
+		// Format timestamps, sizes, numbers and users
+		for (let {columnIndex, type} of this.config.columnTypes) {
+			if (type === 'userid') {
+				const database = getDatabase(this.config.db);
+				if (!canLookUpUserIds(database)) {
+					this.warnings.push(`Column type "userid" in <code>column_types</code> needs the database of a wiki, not ${this.config.db}. Ignoring.`);
+					continue;
+				}
+				const userNames = await fetchUserNames(database, result.map(row => Object.values(row)[columnIndex - 1]));
+				result = this.transformColumn(result, columnIndex, value => {
+					return userNames[value] ? formatUserLink(userNames[value]) : value;
+				});
+			} else {
+				const formatter = {
+					timestamp: formatTimestamp,
+					bytes: formatBytes,
+					number: formatNumber,
+					user: formatUserLink,
+				}[type];
+				result = this.transformColumn(result, columnIndex, formatter);
+			}
+		}
+
 		this.config.removeUnderscores.forEach(columnIndex => {
 			if (columnIndex > numColumns) {
 				this.warnings.push(`Found "${columnIndex}" in <code>remove_underscores</code> though the table only has ${numColumns} column{{subst:plural:${numColumns}||s}}. Ignoring.`);
@@ -469,106 +1191,39 @@ export class Query extends EventEmitter {
 			}
 		});
 
-		let widths = this.getTemplateValue('widths')?.split(',').map(e => {
-			let [colIdx, width] = e.split(':');
-			return {
-				column: parseInt(colIdx),
-				width: width
-			};
+		let summaryRows = summaryValues.map(values => {
+			const summaryRow = Object.fromEntries(Object.keys(result[0]).map(column => [column, values[column] ?? '']));
+			const firstColumn = Object.keys(result[0])[0];
+			if (summaryRow[firstColumn] === '') {
+				summaryRow[firstColumn] = 'Total';
+			}
+			return summaryRow;
 		});
 
 		// Last step: changes column numbers
-		this.config.hiddenColumns.sort().forEach((columnIdx, idx) => {
+		(this.formatter.selectsColumns ? [] : this.config.hiddenColumns.sort()).forEach((columnIdx, idx) => {
 			// columnIdx - idx because column numbering changes when one is removed
 			result = this.removeColumn(result, columnIdx - idx);
+			summaryRows = this.removeColumn(summaryRows, columnIdx - idx);
 		});
 
-		const row_template = this.getTemplateValue('row_template');
-		const row_template_named_params = this.getTemplateValue('row_template_named_params')
-		const header_template = this.getTemplateValue('header_template');
-		const footer_template = this.getTemplateValue('footer_template');
-		const skip_table = this.getTemplateValue('skip_table');
-		const table_style = this.getTemplateValue('table_style') || 'overflow-wrap: anywhere';
-		const table_class = (this.getTemplateValue('table_class') || 'wikitable sortable')
-			.split(/\s+/g).map(e => e.trim()).filter(e => e);
-
-		let table: InstanceType<typeof Mwn.Table>;
-		let tableText = '';
-
-		// NOTE: header_template appears:
-		// - above table start if row_template is not being used
-		// - below table start if row_template is being used
-		if (header_template && (skip_table || !row_template)) {
-			tableText = '{{' + header_template + '}}\n';
-		}
-		if (!skip_table) {
-			table = new Mwn.Table({
-				style: table_style,
-				classes: table_class,
-				sortable: table_class.includes('sortable'),
-				plain: !table_class.includes('wikitable')
-			});
-			if (header_template && row_template) {
-				tableText += table.text + '{{' + header_template + '}}\n';
-			} else {
-				table.addHeaders(Object.keys(result[0]).map((columnName, columnIndex) => {
-					let columnConfig: { label: string, style?: string } = {
-						label: columnName,
-					};
-					let width = widths?.find(e => e.column === columnIndex + 1)?.width;
-					if (width) {
-						columnConfig.style = `width: ${width}`;
-					}
-					return columnConfig;
-				}));
-			}
+		let tableText = groups.length ?
+			this.formatGroups(result, groups, newRowIndices, summaryRows) :
+			this.formatter.format(result, this, { newRowIndices, summaryRow: summaryRows[0] });
+		if (this.hasRawOutput()) {
+			// Not a wikitext page, so no place for warnings and footer
+			return tableText;
 		}
-
-		if (row_template) {
-			if (!skip_table && !header_template) {
-				// Add table top structure.
-				// Not applicable if skip_table is used.
-				// If header_template is there, tableText already include table top structure by now.
-				tableText += table.text;
-			}
-			for (let row of result) {
-				if (row_template_named_params) {
-					tableText += '{{' + row_template + Object.entries(row).map(([key, val]) => `|${key}=` + val).join('') + '}}\n';
-				} else {
-					tableText += '{{' + row_template + Object.values(row).map((val, idx) => `|${idx + 1}=` + val).join('') + '}}\n';
-				}
-			}
-			if (!skip_table) {
-				tableText += '|}'; // complete the table syntax
-			}
-		} else {
-			if (skip_table) {
-				// Using skip_table without row_template
-				throw new HandledError(); // module shows the error on page
-			}
-			for (let row of result) {
-				table.addRow(Object.values(row));
-			}
-			tableText += TextExtractor.finalSanitise(table.getText());
+		if (pageNumber <= 1) {
+			tableText += this.makeRemovedRowsSection();
 		}
 
-		if (skip_table && footer_template) {
-			tableText += '{{' + footer_template + '}}\n';
-		}
-
-		// Get DB replag, but no need to do this any more than once in 6 hours (when triggered via
-		// webservice or eventstream-router).
-		if (
-			db.replagHours === undefined ||
-			db.replagHoursCalculatedTime.isBefore(new bot.Date().subtract(6, 'hours'))
-		) {
-			await db.getReplagHours();
-		}
+		const replagMessage = [...new Set(await Promise.all(this.databases.map(getReplagMessage)))].join('');
 
 		let warningsText = this.warnings.map(text => `[WARN: ${text}]\n\n`).join('');
 
 		return (pageNumber <= 1 ? warningsText : '') +
-			db.makeReplagMessage(2) +
+			replagMessage +
 			tableText + '\n' +
 			(this.config.silent ? '' : '----\n' +
 				Mwn.template('Database report/footer', {
@@ -576,12 +1231,77 @@ export class Query extends EventEmitter {
 					page: pageNumber && String(pageNumber),
 					num_pages: pageNumber && String(this.numPages),
 					query_runtime: this.queryRuntime,
+					idx: String(this.idx),
+					estimated_rows: this.costEstimate !== undefined ? String(this.costEstimate) : undefined,
+					database: this.config.db !== DEFAULT_DATABASE ? this.config.db : undefined,
 					last_updated: new bot.Date().format('HH:mm, D MMMM YYYY') + ' (UTC)',
-				})
+				}) +
+				(pageNumber <= 1 ? this.makeTrendTable() : '')
 			);
 	}
 
+	/**
+	 * Section heading (or group_template transclusion) followed by the formatted rows,
+	 * for each group (group_by).
+	 * @param result - fully transformed rows
+	 * @param groups - group labels, and indices of their rows in result
+	 * @param newRowIndices
+	 * @param summaryRows - summary row of each group, if summary_row is configured
+	 */
+	formatGroups(result: Array<Record<string, string>>, groups: RowGroup<number>[], newRowIndices: Set<number>, summaryRows: Array<Record<string, string>>): string {
+		return groups.map(({label, rows}, groupIdx) => {
+			const groupResult = rows.map(rowIdx => result[rowIdx]);
+			const groupNewRows = new Set(rows.map((rowIdx, idx) => newRowIndices.has(rowIdx) ? idx : -1).filter(idx => idx !== -1));
+			let heading: string;
+			if (this.config.groupTemplate) {
+				heading = Mwn.template(this.config.groupTemplate, {
+					1: label,
+					count: String(rows.length),
+				}) + '\n';
+			} else {
+				heading = `=== ${label.replace(/_/g, ' ') || '(none)'} ===\n` +
+					`${rows.length} row${rows.length === 1 ? '' : 's'}\n`;
+			}
+			const options: FormatOptions = { newRowIndices: groupNewRows, summaryRow: summaryRows[groupIdx] };
+			return heading + this.formatter.format(groupResult, this, options) + '\n';
+		}).join('\n');
+	}
+
+	/**
+	 * Small table of row counts over the last runs, shown below the footer if trend is configured.
+	 */
+	makeTrendTable(): string {
+		if (!this.config.trend) {
+			return '';
+		}
+		const runs = [
+			{ timestamp: new Date(), rowCount: this.rowCount },
+			...this.runHistory
+		].reverse();
+		const table = new Mwn.Table({
+			classes: ['mw-collapsible', 'mw-collapsed', TREND_TABLE_CLASS],
+			style: 'font-size: 90%',
+			sortable: false,
+		});
+		table.addHeaders(['Updated', 'Rows', 'Change']);
+		runs.forEach((run, idx) => {
+			const previousCount = runs[idx - 1]?.rowCount;
+			const change = (typeof previousCount === 'number' && typeof run.rowCount === 'number') ?
+				run.rowCount - previousCount : null;
+			table.addRow([
+				new bot.Date(run.timestamp).format('D MMM YYYY'),
+				String(run.rowCount ?? '?'),
+				change === null ? '' : change > 0 ? `+${change}` : change < 0 ? `−${-change}` : '0',
+			]);
+		});
+		return '\n' + table.getText();
+	}
+
 	async save(queryResult: string | string[], isError = false) {
+		if (this.isPreview) {
+			this.previewOutput = queryResult;
+			return;
+		}
 		if (argv.fake) {
 			writeFile(
 				FAKE_OUTPUT_FILE,
@@ -597,15 +1317,23 @@ export class Query extends EventEmitter {
 		let page = new bot.Page(outputPage);
 		let firstPageResult = Array.isArray(queryResult) ? queryResult[0] : queryResult;
 		try {
+			let skipped = false;
 			await page.edit(rev => {
 				let text = rev.content;
 				let newText = this.insertResultIntoPageText(text, firstPageResult);
+				// Without a record of runs, the bot's last edit is the time of the last update
+				if (!isError && metadataStore.recordsRunTimes && isNoopEdit(text, newText)) {
+					skipped = true;
+					return null; // abort the edit
+				}
 				return {
 					text: newText,
-					summary: this.generateEditSummary(isError)
+					summary: this.generateEditSummary(isError),
+					...this.getContentModelParams(),
 				};
 			});
-			this.emit('save-success', outputPage);
+			this.saveSkipped = skipped;
+			this.emit(skipped ? 'save-skipped' : 'save-success', outputPage);
 		} catch (err) {
 			if (isError) { // error on an error logging attempt, just throw now
 				throw err;
@@ -618,18 +1346,24 @@ export class Query extends EventEmitter {
 				throw err;
 			}
 			this.emit('save-failed', outputPage, err.message);
-			return this.saveWithError(`Error while saving report: ${err.message}`);
+			return this.saveWithError(`Error while saving report: ${err.message}`, 'save-failed');
 		}
 		if (Array.isArray(queryResult)) { // paginated result (output_page is not applicable in this case)
 			for (let [idx, resultText] of Object.entries(queryResult)) {
 				let pageNumber = parseInt(idx) + 1;
 				if (pageNumber ===  1) continue; // already saved above
 				let subpage = new bot.Page(outputPage + '/' + pageNumber);
+				let subpageText = this.makeSubpageHeader(pageNumber) + resultText;
 				this.emit('saving', subpage.getPrefixedText());
+				let existingText = (await bot.read(subpage.toText()))?.revisions?.[0]?.content;
+				if (existingText && isNoopEdit(existingText, subpageText)) {
+					this.emit('save-skipped', subpage.getPrefixedText());
+					continue;
+				}
 				await subpage.save(
-					`{{Database report/subpage|page=${pageNumber}|num_pages=${this.numPages}}}\n` +
-					resultText,
-					'Updating database report'
+					subpageText,
+					'Updating database report',
+					this.getContentModelParams()
 				);
 				this.emit('save-success', subpage.getPrefixedText());
 			}
@@ -640,9 +1374,11 @@ export class Query extends EventEmitter {
 					break;
 				}
 				await subpage.save(
-					`{{Database report/subpage|page=${i}|num_pages=${this.numPages}}}\n` +
-					`{{Database report/footer|count=0|page=${i}|num_pages=${this.numPages}}}`,
-					'Updating database report subpage - empty'
+					this.hasRawOutput() ? this.formatter.format([], this) :
+						this.makeSubpageHeader(i) +
+						`{{Database report/footer|count=0|page=${i}|num_pages=${this.numPages}|idx=${this.idx}}}`,
+					'Updating database report subpage - empty',
+					this.getContentModelParams()
 				);
 			}
 		}
@@ -656,15 +1392,59 @@ export class Query extends EventEmitter {
 						'manual';
 		const endNotFoundNote = this.endNotFound ?
 			', overwriting rest of page as end template not found' : '';
+		const rowChangesNote = !isError && this.rowChanges ? ` (${this.rowChanges})` : '';
 		return (isError ? 'Encountered error in updating database report' : 'Updating database report')
-			+ ': ' + updateMode + endNotFoundNote;
+			+ ': ' + updateMode + endNotFoundNote + rowChangesNote;
+	}
+
+	makeSubpageHeader(pageNumber: number) {
+		if (this.hasRawOutput()) {
+			return '';
+		}
+		return `{{Database report/subpage|page=${pageNumber}|num_pages=${this.numPages}}}\n`;
 	}
 
-	async saveWithError(message: string): Promise<never> {
-		await this.save(`{{error|1=[${message}]}}`, true);
+	getContentModelParams(): { contentmodel?: string } {
+		return this.hasRawOutput() ? { contentmodel: this.formatter.contentModel } : {};
+	}
+
+	/**
+	 * Save an error message to the page in place of the report, and stop processing.
+	 * @param message
+	 * @param code - short identifier of the kind of error, for the run log
+	 */
+	async saveWithError(message: string, code = 'error'): Promise<never> {
+		this.errorCode = code;
+		this.errorMessage = message;
+		if (this.isPreview) {
+			this.previewError = message;
+			throw new HandledError();
+		}
+		const failures = await metadataStore.recordFailure(this, message).catch(err => {
+			log(`[E] Failed to record failure of ${this}`);
+			log(err);
+			return 0;
+		});
+		if (failures >= FAILURE_SUSPENSION_THRESHOLD) {
+			log(`[W] ${this} has failed ${failures} consecutive times, suspending periodic updates`);
+			this.emit('suspended', failures);
+			message += ` '''Periodic updates of this report are suspended as it failed ${failures} consecutive times.''' ` +
+				`To re-enable them, fix the query and edit the {{tl|${TEMPLATE}}} template, or trigger an update ` +
+				`[${WEB_ENDPOINT}?page=${encodeURIComponent(this.page)}&idx=${this.idx} from the web].`;
+		}
+		await this.save(this.hasRawOutput() ?
+			JSON.stringify({ error: message }) :
+			`{{error|1=[${message}]}}`, true);
 		throw new HandledError();
 	}
 
+	/**
+	 * Whether the output is written as-is to output_page, in a content model other than wikitext.
+	 */
+	hasRawOutput(): boolean {
+		return !!this.config.outputPage && this.formatter?.contentModel !== 'wikitext';
+	}
+
 	insertResultIntoPageText(text: string, queryResult: string) {
 		if (this.config.outputPage) {
 			return queryResult;
@@ -694,7 +1474,18 @@ export class Query extends EventEmitter {
 }
 
 // hacky way to prevent further execution in process(), but not actually report as error
-class HandledError extends Error {}
+export class HandledError extends Error {}
+
+export interface QueryPreview {
+	idx: number;
+	/** Formatted result, one element per page if paginated */
+	output: string | string[] | null;
+	/** Error which would have been shown on the page */
+	error: string | null;
+	warnings: string[];
+	queryRuntime: string | null;
+	numPages: number | null;
+}
 
 function getContext() {
 	if (process.env.CRON) return 'cron';
@@ -0,0 +1,86 @@
+import {argv, bot, emailOnError, log} from "../botbase";
+import {getQueriesFromText, metadataStore, Query, SUBSCRIPTIONS_CATEGORY, TEMPLATE} from "./app";
+import {HybridMetadataStore} from "./HybridMetadataStore";
+import {NoMetadataStore} from "./NoMetadataStore";
+import DbTabulatorMetadata from "./eventstream-metadata-maintainer";
+import {Discrepancy, DiscrepancyType, findDiscrepancies, PAGE_UPDATE_FIXES} from "./metadata-audit";
+import {NS_MAIN, NS_TEMPLATE} from "../namespaces";
+
+/**
+ * Compare the stored metadata with the subscriptions category and the transclusions of the
+ * template, and report discrepancies. Run with --fix to fix them, using the same logic as the
+ * eventstream metadata maintainer.
+ *
+ * Usage: node audit.js [--fix] [--metadataStore=sqlite]
+ */
+(async function () {
+
+    process.chdir(__dirname);
+
+    await Promise.all([
+        bot.getTokensAndSiteInfo(),
+        metadataStore.init(),
+    ]);
+    if (metadataStore instanceof HybridMetadataStore && metadataStore.activeStore instanceof NoMetadataStore) {
+        log(`[E] Active store is NoMetadataStore, which has no metadata to audit`);
+        process.exit(1);
+    }
+
+    const categoryMembers = new Set<string>((await new bot.Category(SUBSCRIPTIONS_CATEGORY).members()).map(e => e.title));
+    const transclusions = new Set<string>((await new bot.Page('Template:' + TEMPLATE).transclusions()).filter(title => {
+        const namespace = new bot.Title(title).getNamespaceId();
+        return namespace !== NS_MAIN && namespace !== NS_TEMPLATE;
+    }));
+    const rows = await metadataStore.getStoredQueries();
+    log(`[i] ${categoryMembers.size} pages in category, ${transclusions.size} transclusions, ${rows.length} rows in store`);
+
+    const currentQueries: Record<string, Query[]> = {};
+    const pagesToRead = [...new Set(rows.map(row => row.page))].filter(page => categoryMembers.has(page));
+    for await (let pg of bot.readGen(pagesToRead, { redirects: false }, 50)) {
+        if (pg.invalid || pg.missing) {
+            currentQueries[pg.title] = [];
+            continue;
+        }
+        const queries = getQueriesFromText(pg.revisions[0].content, pg.title);
+        queries.forEach(q => q.parseQuery());
+        currentQueries[pg.title] = queries.filter(q => q.isValid);
+    }
+
+    const discrepancies = findDiscrepancies({ categoryMembers, transclusions, rows, currentQueries });
+    const byType: Partial<Record<DiscrepancyType, Discrepancy[]>> = {};
+    for (let discrepancy of discrepancies) {
+        (byType[discrepancy.type] ||= []).push(discrepancy);
+    }
+    for (let [type, items] of Object.entries(byType)) {
+        log(`[W] ${type}: ${items.length} page(s)`);
+        for (let {page, details} of items) {
+            log(`    ${page}` + (details ? `: ${details}` : ''));
+        }
+    }
+    if (!discrepancies.length) {
+        log(`[S] No discrepancies found`);
+        return;
+    }
+
+    if (!argv.fix) {
+        log(`[i] Run with --fix to fix these. Pages in not-categorized need to be checked manually.`);
+        return;
+    }
+    const maintainer = new DbTabulatorMetadata();
+    maintainer.log = log;
+    maintainer.subscriptions = categoryMembers;
+    // Takes care of not-in-category and untracked pages
+    await maintainer.refreshExistingMetadata();
+
+    const pagesToUpdate = [...new Set(discrepancies
+        .filter(discrepancy => PAGE_UPDATE_FIXES.includes(discrepancy.type))
+        .map(discrepancy => discrepancy.page))];
+    await bot.batchOperation(pagesToUpdate, page => maintainer.updateMetadata(page, true), 10)
+        .catch((data) => {
+            for (let [pg, err] of Object.entries(data.failures)) {
+                log(`[E] Failed updating metadata for ${pg}:`, err);
+            }
+        });
+    log(`[S] Fixed metadata of ${pagesToUpdate.length} page(s) with outdated rows`);
+
+})().catch(e => emailOnError(e, 'db-tabulator-audit'));
@@ -0,0 +1,233 @@
+/**
+ * Declarative calculations on result rows, as an alternative to postprocess_js for simple cases:
+ * computed columns (computed_columns=Ratio: round($3 / $4 * 100, 1)) and summary rows
+ * (summary_row=sum:3,avg:4). These run in-process, unlike JS postprocessing which needs the
+ * sandbox.
+ *
+ * The expression language supports numbers, column references ($1, $2, ...), the operators
+ * + - * / % with the usual precedence, parentheses and the functions listed in FUNCTIONS.
+ * Cells which aren't numbers, and division by zero, make the result empty.
+ */
+
+export type Expression =
+    | { type: 'number', value: number }
+    | { type: 'column', index: number }
+    | { type: 'unary', operand: Expression }
+    | { type: 'binary', operator: string, left: Expression, right: Expression }
+    | { type: 'call', name: string, args: Expression[] };
+
+const FUNCTIONS: Record<string, { arity: [number, number], fn: (...args: number[]) => number }> = {
+    abs: { arity: [1, 1], fn: Math.abs },
+    ceil: { arity: [1, 1], fn: Math.ceil },
+    floor: { arity: [1, 1], fn: Math.floor },
+    round: {
+        arity: [1, 2],
+        fn: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+    },
+    min: { arity: [1, Infinity], fn: Math.min },
+    max: { arity: [1, Infinity], fn: Math.max },
+};
+
+const TOKEN_RGX = /\s*(?:(\d+(?:\.\d*)?|\.\d+)|\$(\d+)|([a-z_]+)|([-+*/%(),]))/y;
+
+/**
+ * Recursive descent parser. Grammar:
+ *   expression := term (('+' | '-') term)*
+ *   term := factor (('*' | '/' | '%') factor)*
+ *   factor := '-' factor | primary
+ *   primary := number | column | name '(' expression (',' expression)* ')' | '(' expression ')'
+ */
+class Parser {
+    tokens: string[] = [];
+    pos = 0;
+
+    constructor(source: string) {
+        TOKEN_RGX.lastIndex = 0;
+        while (TOKEN_RGX.lastIndex < source.length) {
+            const start = TOKEN_RGX.lastIndex;
+            const match = TOKEN_RGX.exec(source);
+            if (!match) {
+                if (!source.slice(start).trim()) {
+                    break;
+                }
+                throw new ExpressionError(`Unexpected character "${source.slice(start).trim()[0]}"`);
+            }
+            this.tokens.push(match[0].trim());
+        }
+    }
+
+    parse(): Expression {
+        if (!this.tokens.length) {
+            throw new ExpressionError('Empty expression');
+        }
+        const expr = this.expression();
+        if (this.pos < this.tokens.length) {
+            throw new ExpressionError(`Unexpected "${this.tokens[this.pos]}"`);
+        }
+        return expr;
+    }
+
+    peek(): string {
+        return this.tokens[this.pos];
+    }
+
+    expect(token: string) {
+        if (this.tokens[this.pos] !== token) {
+            throw new ExpressionError(`Expected "${token}"` + (this.pos < this.tokens.length ? ` but found "${this.peek()}"` : ''));
+        }
+        this.pos++;
+    }
+
+    expression(): Expression {
+        let left = this.term();
+        while (this.peek() === '+' || this.peek() === '-') {
+            const operator = this.tokens[this.pos++];
+            left = { type: 'binary', operator, left, right: this.term() };
+        }
+        return left;
+    }
+
+    term(): Expression {
+        let left = this.factor();
+        while (this.peek() === '*' || this.peek() === '/' || this.peek() === '%') {
+            const operator = this.tokens[this.pos++];
+            left = { type: 'binary', operator, left, right: this.factor() };
+        }
+        return left;
+    }
+
+    factor(): Expression {
+        if (this.peek() === '-') {
+            this.pos++;
+            return { type: 'unary', operand: this.factor() };
+        }
+        return this.primary();
+    }
+
+    primary(): Expression {
+        const token = this.tokens[this.pos++];
+        if (token === undefined) {
+            throw new ExpressionError('Unexpected end of expression');
+        }
+        if (token === '(') {
+            const expr = this.expression();
+            this.expect(')');
+            return expr;
+        }
+        if (/^[\d.]/.test(token)) {
+            return { type: 'number', value: Number(token) };
+        }
+        if (token.startsWith('$')) {
+            const index = parseInt(token.slice(1));
+            if (index < 1) {
+                throw new ExpressionError(`Invalid column reference "${token}"`);
+            }
+            return { type: 'column', index };
+        }
+        if (/^[a-z_]/.test(token)) {
+            // Not `in`, which would accept members of Object.prototype like constructor
+            const func = Object.prototype.hasOwnProperty.call(FUNCTIONS, token) ? FUNCTIONS[token] : undefined;
+            if (!func) {
+                throw new ExpressionError(`Unknown function "${token}"`);
+            }
+            this.expect('(');
+            const args = [this.expression()];
+            while (this.peek() === ',') {
+                this.pos++;
+                args.push(this.expression());
+            }
+            this.expect(')');
+            if (args.length < func.arity[0] || args.length > func.arity[1]) {
+                throw new ExpressionError(`Wrong number of arguments for ${token}()`);
+            }
+            return { type: 'call', name: token, args };
+        }
+        throw new ExpressionError(`Unexpected "${token}"`);
+    }
+}
+
+export function parseExpression(source: string): Expression {
+    return new Parser(source).parse();
+}
+
+/** Highest column number referred to in the expression */
+export function maxColumnReference(expr: Expression): number {
+    switch (expr.type) {
+        case 'column': return expr.index;
+        case 'unary': return maxColumnReference(expr.operand);
+        case 'binary': return Math.max(maxColumnReference(expr.left), maxColumnReference(expr.right));
+        case 'call': return Math.max(0, ...expr.args.map(maxColumnReference));
+        default: return 0;
+    }
+}
+
+/** Cells can also be numbers or null, as returned by postprocess_js */
+type Cell = string | number | null;
+
+function evaluate(expr: Expression, cells: Cell[]): number {
+    switch (expr.type) {
+        case 'number':
+            return expr.value;
+        case 'column': {
+            const cell = String(cells[expr.index - 1] ?? '');
+            return cell.trim() === '' ? NaN : Number(cell);
+        }
+        case 'unary':
+            return -evaluate(expr.operand, cells);
+        case 'binary': {
+            const left = evaluate(expr.left, cells), right = evaluate(expr.right, cells);
+            switch (expr.operator) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return left / right;
+                case '%': return left % right;
+            }
+            break;
+        }
+        case 'call':
+            return FUNCTIONS[expr.name].fn(...expr.args.map(arg => evaluate(arg, cells)));
+    }
+}
+
+/** Drop floating point noise, eg. 0.1 + 0.2 gives 0.3 rather than 0.30000000000000004 */
+function formatResult(value: number): string {
+    return Number.isFinite(value) ? String(Number(value.toPrecision(12))) : '';
+}
+
+/**
+ * @param expr
+ * @param cells - values of the row, in column order
+ * @returns result as a string, empty if the result is not a finite number
+ */
+export function evaluateExpression(expr: Expression, cells: Cell[]): string {
+    return formatResult(evaluate(expr, cells));
+}
+
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'min', 'max', 'count'];
+
+/**
+ * Aggregate the given column of the rows. Cells which aren't numbers are skipped,
+ * except by count which counts non-empty cells.
+ */
+export function aggregateColumn(rows: Array<Record<string, string>>, columnIndex: number, func: AggregateFunction): string {
+    const cells = rows.map(row => Object.values(row)[columnIndex - 1])
+        .filter(cell => cell !== undefined && cell !== null && String(cell).trim() !== '');
+    if (func === 'count') {
+        return String(cells.length);
+    }
+    const numbers = cells.map(Number).filter(num => !isNaN(num));
+    if (!numbers.length) {
+        return '';
+    }
+    switch (func) {
+        case 'sum': return formatResult(numbers.reduce((a, b) => a + b, 0));
+        case 'avg': return formatResult(Math.round(numbers.reduce((a, b) => a + b, 0) / numbers.length * 100) / 100);
+        case 'min': return formatResult(numbers.reduce((a, b) => Math.min(a, b)));
+        case 'max': return formatResult(numbers.reduce((a, b) => Math.max(a, b)));
+    }
+}
+
+export class ExpressionError extends Error {}
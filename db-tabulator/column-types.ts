@@ -0,0 +1,98 @@
+import {bot, Mwn} from "../botbase";
+import {arrayChunk} from "../utils";
+import {db, wikireplicadb} from "../db";
+
+/**
+ * Formatting of cells as per the column_types parameter of {{Database report}}, eg.
+ * column_types=2:timestamp,3:bytes,4:number,5:user
+ */
+export type ColumnType = 'timestamp' | 'bytes' | 'number' | 'user' | 'userid';
+
+export const COLUMN_TYPES: ColumnType[] = ['timestamp', 'bytes', 'number', 'user', 'userid'];
+
+/**
+ * Wrap displayed text with the raw value as sort key. The sortable table script looks for
+ * data-sort-value on the descendants of the cell as well.
+ */
+function withSortValue(text: string, sortValue: string | number) {
+    return `<span data-sort-value="${String(sortValue).replace(/"/g, '&quot;')}">${text}</span>`;
+}
+
+/** MediaWiki timestamps, eg. 20240101120000 */
+const MW_TIMESTAMP_RGX = /^\d{14}$/;
+
+/** ISO 8601 dates, eg. 2024-01-01, 2024-01-01T12:00:00Z or 2024-01-01 12:00:00.000+05:30 */
+const ISO_DATE_RGX = /^\d{4}-\d\d-\d\d(?:[T ]\d\d:\d\d(?::\d\d(?:\.\d+)?)?(?:Z|[+-]\d\d:?\d\d)?)?$/;
+
+/**
+ * MediaWiki timestamps (20240101120000) or ISO dates to readable date. Other values, like plain
+ * numbers, are left as is.
+ */
+export function formatTimestamp(value: string): string {
+    if (!MW_TIMESTAMP_RGX.test(value) && !(ISO_DATE_RGX.test(value) && !isNaN(Date.parse(value)))) {
+        return value;
+    }
+    const date = new bot.Date(value);
+    return withSortValue(date.format('HH:mm, D MMMM YYYY'), date.format('YYYYMMDDHHmmss'));
+}
+
+const SIZE_UNITS = ['bytes', 'KB', 'MB', 'GB', 'TB'];
+
+/** Byte counts to human-readable sizes, in 1024 multiples */
+export function formatBytes(value: string): string {
+    let size = Number(value);
+    if (value === '' || isNaN(size)) {
+        return value;
+    }
+    let unitIdx = 0;
+    while (Math.abs(size) >= 1024 && unitIdx < SIZE_UNITS.length - 1) {
+        size /= 1024;
+        unitIdx++;
+    }
+    const text = unitIdx === 0 ? `${size} bytes` : `${size.toFixed(1)} ${SIZE_UNITS[unitIdx]}`;
+    return withSortValue(text, value);
+}
+
+/** Numbers with thousands grouping, eg. 1234567 to 1,234,567 */
+export function formatNumber(value: string): string {
+    const num = Number(value);
+    if (value === '' || isNaN(num)) {
+        return value;
+    }
+    return withSortValue(num.toLocaleString('en-US', { maximumFractionDigits: 20 }), value);
+}
+
+/** User names (or actor names) to user page links, and IPs to contributions links */
+export function formatUserLink(name: string): string {
+    if (!name) {
+        return name;
+    }
+    name = name.replace(/_/g, ' ');
+    if (Mwn.util.isIPAddress(name)) {
+        return `[[Special:Contributions/${name}|${name}]]`;
+    }
+    return `[[User:${name}|${name}]]`;
+}
+
+/** Wiki replicas have a user table to look up user IDs in, unlike ToolsDB */
+export function canLookUpUserIds(database: db): boolean {
+    return database instanceof wikireplicadb;
+}
+
+/**
+ * Look up user names of the given user IDs in the wiki's database, as IDs differ across wikis.
+ * @param database - replica of the wiki the IDs are from
+ * @param userIds
+ * @returns user names keyed by user ID. IDs of users which don't exist are left out.
+ */
+export async function fetchUserNames(database: db, userIds: string[]): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    const validIds = [...new Set(userIds.map(String).filter(id => /^\d+$/.test(id)))];
+    for (let idSet of arrayChunk(validIds, 500)) {
+        const rows = await database.query(`SELECT user_id, user_name FROM user WHERE user_id IN (?)`, [idSet]);
+        for (let row of rows) {
+            names[row.user_id] = row.user_name as string;
+        }
+    }
+    return names;
+}
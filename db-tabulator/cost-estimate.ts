@@ -0,0 +1,93 @@
+import {bot} from "../botbase";
+
+/**
+ * Estimation of the cost of a query, as the number of rows examined, from its EXPLAIN output.
+ * Queries estimated to examine more rows than the budget are not run, unless the page is
+ * listed on the whitelist page.
+ */
+
+/** Row of MariaDB EXPLAIN output */
+export interface ExplainRow {
+    id: number | null;
+    select_type: string;
+    table: string | null;
+    type: string | null;
+    key: string | null;
+    rows: number | string | null;
+    [column: string]: any;
+}
+
+export interface CostEstimate {
+    /** Estimated number of rows examined */
+    rows: number;
+    /** Table contributing the most rows, and the access type used on it */
+    worstTable: { table: string, type: string, rows: number } | null;
+}
+
+/** Access types which scan the whole table or index */
+const FULL_SCAN_TYPES = ['ALL', 'index'];
+
+/**
+ * Tables within a SELECT (same id) are joined as nested loops, so the rows examined are the
+ * product of the rows of each table. Separate SELECTs (subqueries, derived tables, unions)
+ * add up.
+ */
+export function estimateCost(explainRows: ExplainRow[]): CostEstimate {
+    const rowsBySelect: Map<string, number> = new Map();
+    let worstTable: CostEstimate['worstTable'] = null;
+    for (let row of explainRows) {
+        const rows = Number(row.rows);
+        if (row.rows === null || isNaN(rows)) {
+            continue;
+        }
+        const selectId = String(row.id);
+        rowsBySelect.set(selectId, (rowsBySelect.get(selectId) ?? 1) * Math.max(rows, 1));
+
+        // A full scan is worse than an index lookup for the same number of rows
+        const isWorse = !worstTable ||
+            (FULL_SCAN_TYPES.includes(row.type) && !FULL_SCAN_TYPES.includes(worstTable.type)) ||
+            (FULL_SCAN_TYPES.includes(row.type) === FULL_SCAN_TYPES.includes(worstTable.type) && rows > worstTable.rows);
+        if (row.table && isWorse) {
+            worstTable = { table: row.table, type: row.type, rows };
+        }
+    }
+    return {
+        rows: [...rowsBySelect.values()].reduce((a, b) => a + b, 0),
+        worstTable,
+    };
+}
+
+/** Describe where most rows come from, for error messages */
+export function describeWorstTable(estimate: CostEstimate): string {
+    const worst = estimate.worstTable;
+    if (!worst) {
+        return '';
+    }
+    const access = FULL_SCAN_TYPES.includes(worst.type) ?
+        (worst.type === 'ALL' ? 'a full table scan' : 'a full index scan') :
+        `access type ${worst.type}`;
+    return `The most expensive part is reading about ${formatRowCount(worst.rows)} rows from <code>${worst.table}</code> using ${access}.`;
+}
+
+export function formatRowCount(rows: number): string {
+    return rows.toLocaleString('en-US', { maximumFractionDigits: 0 });
+}
+
+let whitelist: { pages: Set<string>, fetchedAt: number };
+
+/** Refresh the whitelist at most once an hour (in the web endpoint and eventstream router) */
+const WHITELIST_REFRESH_INTERVAL = 3600e3;
+
+/**
+ * Pages linked from the whitelist page, whose queries aren't subject to the cost budget.
+ */
+export async function isWhitelistedForCost(page: string, whitelistPage: string): Promise<boolean> {
+    if (!whitelist || whitelist.fetchedAt < Date.now() - WHITELIST_REFRESH_INTERVAL) {
+        const text = (await bot.read(whitelistPage))?.revisions?.[0]?.content || '';
+        const pages = [...text.matchAll(/\[\[:?([^|\]#]+)/g)]
+            .map(match => bot.Title.newFromText(match[1])?.toText())
+            .filter(title => title);
+        whitelist = { pages: new Set(pages), fetchedAt: Date.now() };
+    }
+    return whitelist.pages.has(new bot.Title(page).toText());
+}
@@ -0,0 +1,101 @@
+import {bot} from "../botbase";
+import {commonswikidb, db, toolsdb, wikireplicadb} from "../db";
+import {CONCURRENCY} from "./app";
+
+/** Database used by reports which don't specify the db parameter */
+export const DEFAULT_DATABASE = 'commonswiki';
+
+/**
+ * Maximum concurrent connections per database. Databases not listed here get DEFAULT_CONNECTION_LIMIT.
+ * Commons, where most reports run, gets CONCURRENCY.
+ */
+const CONNECTION_LIMITS: Record<string, number> = {
+    wikidatawiki: 3,
+};
+const DEFAULT_CONNECTION_LIMIT = 2;
+
+/** Wiki replicas, eg. enwiki, wikidatawiki, zh_min_nanwiki */
+const WIKI_DB_RGX = /^[a-z][a-z_]*wik[a-z]*$/;
+
+/** ToolsDB databases are specified as toolsdb:<full database name>, eg. toolsdb:s12345__mytool_p */
+const TOOLSDB_RGX = /^toolsdb:(s\d+__\w+)$/;
+
+/**
+ * The bot's own ToolsDB databases, which hold its metadata. Report SQL comes from wiki editors,
+ * so it must not run with write access to these.
+ */
+const OWN_TOOLSDB_PREFIX = 's54277__';
+
+/** Connection pools by database name, created on first use */
+const pools: Map<string, db> = new Map();
+
+/**
+ * Single-connection pools by database name, for checking the plans of running queries and killing
+ * them (see Query.checkCost). Kept apart from the report pools, which are often all busy, as
+ * processQueries runs as many reports in parallel as the commons pool has connections.
+ */
+const monitorPools: Map<string, db> = new Map();
+
+export function isValidDatabase(name: string): boolean {
+    return WIKI_DB_RGX.test(name) ||
+        (TOOLSDB_RGX.test(name) && !name.match(TOOLSDB_RGX)[1].startsWith(OWN_TOOLSDB_PREFIX));
+}
+
+/**
+ * Get the connection pool for a database, as specified in the db parameter of {{Database report}}.
+ * @throws {Error} if the name is not a valid database
+ */
+export function getDatabase(name: string = DEFAULT_DATABASE): db {
+    if (!pools.has(name)) {
+        const connectionLimit = name === DEFAULT_DATABASE ? CONCURRENCY :
+            (CONNECTION_LIMITS[name] ?? DEFAULT_CONNECTION_LIMIT);
+        pools.set(name, createPool(name, connectionLimit));
+    }
+    return pools.get(name);
+}
+
+/**
+ * Get the connection pool for running SHOW EXPLAIN FOR and KILL QUERY on queries of a database.
+ * @throws {Error} if the name is not a valid database
+ */
+export function getMonitorDatabase(name: string = DEFAULT_DATABASE): db {
+    if (!monitorPools.has(name)) {
+        monitorPools.set(name, createPool(name, 1));
+    }
+    return monitorPools.get(name);
+}
+
+function createPool(name: string, connectionLimit: number): db {
+    if (name === 'commonswiki') {
+        return new commonswikidb({ connectionLimit });
+    } else if (WIKI_DB_RGX.test(name)) {
+        return new wikireplicadb(name, { connectionLimit });
+    } else if (TOOLSDB_RGX.test(name) && isValidDatabase(name)) {
+        const pool = new toolsdb('', { database: name.match(TOOLSDB_RGX)[1], connectionLimit });
+        // Other tools' databases are only readable with our grants, but don't rely on that alone
+        pool.pool.pool.on('connection', connection => {
+            connection.query('SET SESSION TRANSACTION READ ONLY', () => {});
+        });
+        return pool;
+    } else {
+        throw new Error(`Unsupported database "${name}"`);
+    }
+}
+
+/**
+ * Hatnote about replication lag of the database, if it is high. Not applicable for ToolsDB.
+ */
+export async function getReplagMessage(database: db): Promise<string> {
+    if (!(database instanceof wikireplicadb)) {
+        return '';
+    }
+    // No need to check replag any more than once in 6 hours (when triggered via
+    // webservice or eventstream-router).
+    if (
+        database.replagHours === undefined ||
+        database.replagHoursCalculatedTime.isBefore(new bot.Date().subtract(6, 'hours'))
+    ) {
+        await database.getReplagHours();
+    }
+    return database.makeReplagMessage(2);
+}
@@ -0,0 +1,147 @@
+import {bot} from "../botbase";
+import {arrayChunk} from "../utils";
+import TextExtractor from "../TextExtractor";
+
+/**
+ * Excerpt sources for files other than the lead section wikitext, selected through the mode
+ * field of the excerpts parameter of {{Database report}}, eg. excerpts=1:2:6:250:500:caption
+ */
+export type ExcerptMode = 'lead' | 'description' | 'caption' | 'categories';
+
+export const EXCERPT_MODES: ExcerptMode[] = ['lead', 'description', 'caption', 'categories'];
+
+/** Templates having a description field, as used on file description pages */
+const DESCRIPTION_TEMPLATE_RGX = /^(information|artwork|photograph|book|art photo)$/i;
+
+/** Language templates like {{en|1=...}}, which wrap the description in each language */
+const LANGUAGE_TEMPLATE_RGX = /^[a-z]{2,3}(-[a-z]+)*$/i;
+
+/**
+ * Get the description field of {{Information}} or a similar template, in the given language.
+ * Falls back to English, and then to the first language available, if the description is
+ * in language templates. Returns empty string if there is no description.
+ */
+export function extractFileDescription(wikitext: string, lang: string): string {
+    const template = bot.Wikitext.parseTemplates(wikitext, {
+        namePredicate: name => DESCRIPTION_TEMPLATE_RGX.test(name.trim()),
+        count: 1,
+    })[0];
+    const description = (template?.getValue('description') ?? template?.getValue('Description'))?.trim();
+    if (!description) {
+        return '';
+    }
+    const languageTemplates = bot.Wikitext.parseTemplates(description, {
+        namePredicate: name => LANGUAGE_TEMPLATE_RGX.test(name.trim()),
+    });
+    if (!languageTemplates.length) {
+        return description;
+    }
+    // Template names are normalized with first letter in uppercase
+    const chosen = languageTemplates.find(t => t.name.toLowerCase() === lang) ||
+        languageTemplates.find(t => t.name.toLowerCase() === 'en') ||
+        languageTemplates[0];
+    return (chosen.getValue(1) ?? '').trim();
+}
+
+/**
+ * @param pages - file names
+ * @param lang - language code of the description to use
+ * @param charLimit
+ * @param charHardLimit
+ * @returns descriptions keyed by page name
+ */
+export async function fetchFileDescriptions(pages: string[], lang: string, charLimit: number, charHardLimit: number): Promise<Record<string, string>> {
+    const descriptions: Record<string, string> = {};
+    for (let pageSet of arrayChunk(pages, 100)) {
+        // {{Information}} is generally not in section 0, which holds just the == Summary == heading
+        for await (let pg of bot.readGen(pageSet, {
+            redirects: false
+        })) {
+            if (pg.invalid || pg.missing) {
+                descriptions[pg.title] = '';
+            } else {
+                const description = extractFileDescription(pg.revisions[0].content, lang);
+                descriptions[pg.title] = TextExtractor.getExtract(description, charLimit, charHardLimit);
+            }
+        }
+    }
+    return descriptions;
+}
+
+/** Response of wbgetentities with props=labels. Labels of MediaInfo entities are the captions. */
+interface EntityLabelsResponse {
+    entities?: Record<string, {
+        id: string;
+        missing?: string;
+        labels?: Record<string, { language: string, value: string }>;
+    }>;
+}
+
+/**
+ * Captions from Structured Data on Commons, in the given language or its fallbacks.
+ * @returns captions keyed by page name
+ */
+export async function fetchCaptions(pages: string[], lang: string): Promise<Record<string, string>> {
+    const captions: Record<string, string> = {};
+    // wbgetentities takes up to 50 IDs
+    for (let pageSet of arrayChunk(pages, 50)) {
+        const response = await bot.query({
+            titles: pageSet,
+            redirects: false,
+        });
+        const mediaInfoIds: Record<string, string> = {};
+        for (let pg of response.query.pages) {
+            if (pg.invalid || pg.missing) {
+                captions[pg.title] = '';
+            } else {
+                mediaInfoIds['M' + pg.pageid] = pg.title;
+            }
+        }
+        if (!Object.keys(mediaInfoIds).length) {
+            continue;
+        }
+        const entityResponse: EntityLabelsResponse = await bot.request({
+            action: 'wbgetentities',
+            ids: Object.keys(mediaInfoIds),
+            props: 'labels',
+            languages: lang,
+            languagefallback: true,
+        });
+        for (let [id, title] of Object.entries(mediaInfoIds)) {
+            // Files without structured data are reported as missing entities
+            const labels = entityResponse.entities?.[id]?.labels || {};
+            const caption = (labels[lang] || Object.values(labels)[0])?.value;
+            // Captions are plain text, not wikitext
+            captions[title] = caption ? '<nowiki>' + caption.replace(/<\/nowiki/gi, '&lt;/nowiki') + '</nowiki>' : '';
+        }
+    }
+    return captions;
+}
+
+/**
+ * First few non-hidden categories of each page, as links.
+ * @returns category links keyed by page name
+ */
+export async function fetchCategories(pages: string[], count: number): Promise<Record<string, string>> {
+    const categories: Record<string, string[]> = {};
+    for (let pageSet of arrayChunk(pages, 100)) {
+        for await (let response of bot.continuedQueryGen({
+            titles: pageSet,
+            prop: 'categories',
+            clshow: '!hidden',
+            cllimit: 'max',
+            redirects: false,
+        })) {
+            for (let pg of response.query.pages) {
+                categories[pg.title] = (categories[pg.title] || []).concat(
+                    (pg.categories || []).map(cat => cat.title)
+                );
+            }
+        }
+    }
+    return Object.fromEntries(Object.entries(categories).map(([title, cats]) => {
+        return [title, cats.slice(0, count).map(cat => {
+            return `[[:${cat}|${cat.replace(/^[^:]+:/, '')}]]`;
+        }).join(', ')];
+    }));
+}
@@ -1,5 +1,5 @@
 import {argv, bot, emailOnError} from "../botbase";
-import {metadataStore, fetchQueriesForPage, processQueriesForPage} from "./app";
+import {metadataStore, fetchQueriesForPage, parseQueryIndices, processQueriesForPage} from "./app";
 
 /**
  * Entry point invoked in a child Node.js process for queries
@@ -14,7 +14,7 @@ import {metadataStore, fetchQueriesForPage, processQueriesForPage} from "./app";
         metadataStore.init()
     ]);
 
-    const queries = await fetchQueriesForPage(argv.page);
+    const queries = await fetchQueriesForPage(argv.page, parseQueryIndices(argv.idx));
 
     // Send progress events to parent process for display in web UI
     for (let query of queries) {
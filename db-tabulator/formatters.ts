@@ -0,0 +1,258 @@
+import {bot, Mwn, TextExtractor} from "../botbase";
+import {NS_FILE} from "../namespaces";
+import {HandledError, Query} from "./app";
+
+export interface FormatOptions {
+    /** Indices of rows which are new since the last run (highlight_new) */
+    newRowIndices?: Set<number>;
+    /** Totals or other aggregates to show below the rows (summary_row) */
+    summaryRow?: Record<string, string>;
+}
+
+/**
+ * Turns the (already transformed) rows of a result set into the body of a report.
+ * Selected using the output_format parameter of {{Database report}}.
+ */
+export interface ResultFormatter {
+    /**
+     * Content model of the page the output is saved to, if the report is written
+     * to a separate output_page. Warnings and footer are added only to wikitext pages.
+     */
+    contentModel: 'wikitext' | 'json';
+
+    /**
+     * Whether the formatter shows only the columns it picks itself, referring to them by the
+     * column numbers before hidden columns are removed. The hide parameter doesn't apply then.
+     */
+    selectsColumns?: boolean;
+
+    format(result: Array<Record<string, string>>, query: Query, options?: FormatOptions): string;
+}
+
+/** Attributes for rows which are new since the last run, see highlight_new */
+const NEW_ROW_ATTRIBUTES = {
+    class: 'dbr-new-row',
+    style: 'background-color: #e6f7e6',
+};
+
+/** Attributes for the summary row. sortbottom keeps it at the bottom when the table is sorted. */
+const SUMMARY_ROW_ATTRIBUTES = {
+    class: 'sortbottom',
+    style: 'font-weight: bold',
+};
+
+export class WikitableFormatter implements ResultFormatter {
+    contentModel = 'wikitext' as const;
+
+    format(result: Array<Record<string, string>>, query: Query, options: FormatOptions = {}): string {
+        const newRowIndices = options.newRowIndices || new Set();
+        let widths = query.getTemplateValue('widths')?.split(',').map(e => {
+            let [colIdx, width] = e.split(':');
+            return {
+                column: parseInt(colIdx),
+                width: width
+            };
+        });
+
+        const row_template = query.getTemplateValue('row_template');
+        const row_template_named_params = query.getTemplateValue('row_template_named_params')
+        const header_template = query.getTemplateValue('header_template');
+        const footer_template = query.getTemplateValue('footer_template');
+        const skip_table = query.getTemplateValue('skip_table');
+        const table_style = query.getTemplateValue('table_style') || 'overflow-wrap: anywhere';
+        const table_class = (query.getTemplateValue('table_class') || 'wikitable sortable')
+            .split(/\s+/g).map(e => e.trim()).filter(e => e);
+
+        let table: InstanceType<typeof Mwn.Table>;
+        let tableText = '';
+
+        // NOTE: header_template appears:
+        // - above table start if row_template is not being used
+        // - below table start if row_template is being used
+        if (header_template && (skip_table || !row_template)) {
+            tableText = '{{' + header_template + '}}\n';
+        }
+        if (!skip_table) {
+            table = new Mwn.Table({
+                style: table_style,
+                classes: table_class,
+                sortable: table_class.includes('sortable'),
+                plain: !table_class.includes('wikitable')
+            });
+            if (header_template && row_template) {
+                tableText += table.text + '{{' + header_template + '}}\n';
+            } else {
+                table.addHeaders(Object.keys(result[0]).map((columnName, columnIndex) => {
+                    let columnConfig: { label: string, style?: string } = {
+                        label: columnName,
+                    };
+                    let width = widths?.find(e => e.column === columnIndex + 1)?.width;
+                    if (width) {
+                        columnConfig.style = `width: ${width}`;
+                    }
+                    return columnConfig;
+                }));
+            }
+        }
+
+        if (row_template) {
+            if (!skip_table && !header_template) {
+                // Add table top structure.
+                // Not applicable if skip_table is used.
+                // If header_template is there, tableText already include table top structure by now.
+                tableText += table.text;
+            }
+            result.forEach((row, rowIdx) => {
+                const newParam = newRowIndices.has(rowIdx) ? '|new=yes' : '';
+                if (row_template_named_params) {
+                    tableText += '{{' + row_template + Object.entries(row).map(([key, val]) => `|${key}=` + val).join('') + newParam + '}}\n';
+                } else {
+                    tableText += '{{' + row_template + Object.values(row).map((val, idx) => `|${idx + 1}=` + val).join('') + newParam + '}}\n';
+                }
+            });
+            if (options.summaryRow) {
+                if (row_template_named_params) {
+                    tableText += '{{' + row_template + Object.entries(options.summaryRow).map(([key, val]) => `|${key}=` + val).join('') + '|summary=yes}}\n';
+                } else {
+                    tableText += '{{' + row_template + Object.values(options.summaryRow).map((val, idx) => `|${idx + 1}=` + val).join('') + '|summary=yes}}\n';
+                }
+            }
+            if (!skip_table) {
+                tableText += '|}'; // complete the table syntax
+            }
+        } else {
+            if (skip_table) {
+                // Using skip_table without row_template
+                throw new HandledError(); // module shows the error on page
+            }
+            result.forEach((row, rowIdx) => {
+                table.addRow(Object.values(row), newRowIndices.has(rowIdx) ? NEW_ROW_ATTRIBUTES : {});
+            });
+            if (options.summaryRow) {
+                table.addRow(Object.values(options.summaryRow), SUMMARY_ROW_ATTRIBUTES);
+            }
+            tableText += TextExtractor.finalSanitise(table.getText());
+        }
+
+        if (skip_table && footer_template) {
+            tableText += '{{' + footer_template + '}}\n';
+        }
+        return tableText;
+    }
+}
+
+/**
+ * Rows as an array of objects keyed by column name. Written as-is to a JSON content model
+ * output_page, otherwise shown in a syntaxhighlight block on the report page. The summary row
+ * is left out, as it isn't data.
+ */
+export class JsonFormatter implements ResultFormatter {
+    contentModel = 'json' as const;
+
+    format(result: Array<Record<string, string>>, query: Query): string {
+        const json = JSON.stringify(result, null, '\t');
+        if (query.hasRawOutput()) {
+            return json;
+        }
+        return '<syntaxhighlight lang="json">\n' + json.replace(/<\/syntaxhighlight/gi, '<\\/syntaxhighlight') +
+            '\n</syntaxhighlight>\n';
+    }
+}
+
+/**
+ * CSV (RFC 4180) or TSV rows, with a header line, in a <pre> block.
+ */
+export class DelimitedFormatter implements ResultFormatter {
+    contentModel = 'wikitext' as const;
+    delimiter: string;
+
+    constructor(delimiter: ',' | '\t') {
+        this.delimiter = delimiter;
+    }
+
+    /** Cells can also be numbers or null, as returned by postprocess_js */
+    escapeCell(cell: string | number | null): string {
+        const value = String(cell ?? '');
+        if (this.delimiter === '\t') {
+            // TSV has no quoting, so just replace the characters which would break the layout
+            return value.replace(/[\t\r\n]+/g, ' ');
+        }
+        if (/[",\r\n]/.test(value)) {
+            return '"' + value.replace(/"/g, '""') + '"';
+        }
+        return value;
+    }
+
+    format(result: Array<Record<string, string>>, query: Query, options: FormatOptions = {}): string {
+        const rows = options.summaryRow ? [...result, options.summaryRow] : result;
+        const lines = [Object.keys(result[0] || {}), ...rows.map(row => Object.values(row))]
+            .map(cells => cells.map(cell => this.escapeCell(cell)).join(this.delimiter));
+        // Content of <pre> is not parsed as wikitext, but HTML entities are still decoded
+        return '<pre>\n' + lines.join('\n').replace(/&/g, '&amp;').replace(/</g, '&lt;') + '\n</pre>\n';
+    }
+}
+
+/** Values for the mode attribute of <gallery> (gallery_mode) */
+export const GALLERY_MODES = ['traditional', 'nolines', 'packed', 'packed-overlay', 'packed-hover', 'slideshow'];
+
+/**
+ * Make a cell fit in a gallery caption: a pipe would start a new image option, except within
+ * links and templates, and each gallery item needs to be on a single line.
+ */
+function escapeGalleryCaption(cell: string): string {
+    let depth = 0;
+    return String(cell ?? '').replace(/\[\[|\]\]|\{\{|\}\}|\||[\r\n]+/g, token => {
+        if (token === '[[' || token === '{{') {
+            depth++;
+        } else if (token === ']]' || token === '}}') {
+            depth = Math.max(depth - 1, 0);
+        } else if (token === '|') {
+            return depth ? token : '&#124;';
+        } else {
+            return ' ';
+        }
+        return token;
+    });
+}
+
+/**
+ * Files as a <gallery>, with captions made from the caption columns. Used when the gallery
+ * parameter gives the column with file names (with or without the namespace prefix).
+ * Rows with invalid file names are left out.
+ */
+export class GalleryFormatter implements ResultFormatter {
+    contentModel = 'wikitext' as const;
+    selectsColumns = true;
+
+    format(result: Array<Record<string, string>>, query: Query, options: FormatOptions = {}): string {
+        const newRowIndices = options.newRowIndices || new Set();
+        const lines = result.map((row, rowIdx) => {
+            const cells = Object.values(row);
+            const fileName = (cells[query.config.galleryColumn - 1] || '').replace(/^\s*(file|image)\s*:/i, '');
+            const title = bot.Title.makeTitle(NS_FILE, fileName);
+            if (!title) {
+                return null;
+            }
+            let caption = query.config.galleryCaptionColumns
+                .map(columnIdx => cells[columnIdx - 1])
+                .filter(cell => cell)
+                .map(escapeGalleryCaption)
+                .join('<br>');
+            if (newRowIndices.has(rowIdx)) {
+                caption = `<span class="${NEW_ROW_ATTRIBUTES.class}">${caption || 'New'}</span>`;
+            }
+            return title.toText() + (caption ? '|' + caption : '');
+        }).filter(line => line !== null);
+
+        const attributes = query.config.galleryMode ? ` mode="${query.config.galleryMode}"` : '';
+        return `<gallery${attributes}>\n` + lines.join('\n') + '\n</gallery>\n';
+    }
+}
+
+export const formatters: Record<string, ResultFormatter> = {
+    wikitable: new WikitableFormatter(),
+    json: new JsonFormatter(),
+    csv: new DelimitedFormatter(','),
+    tsv: new DelimitedFormatter('\t'),
+    gallery: new GalleryFormatter(),
+};
@@ -0,0 +1,59 @@
+/**
+ * Grouping of report rows by the value of a column (group_by parameter of {{Database report}}).
+ */
+
+export type GroupOrder = 'appearance' | 'asc' | 'desc' | 'count';
+
+export interface RowGroup<T> {
+    label: string;
+    rows: T[];
+}
+
+/**
+ * Group rows by label, usually the value in the group_by column. Rows in a group keep their
+ * relative order.
+ * @param rows
+ * @param getLabel
+ * @param order - order of groups: by first appearance in rows (default), by value ascending or
+ * descending, or by number of rows (largest first)
+ */
+export function groupRows<T>(rows: T[], getLabel: (row: T) => string, order: GroupOrder = 'appearance'): RowGroup<T>[] {
+    const groups: Map<string, T[]> = new Map();
+    for (let row of rows) {
+        const label = getLabel(row);
+        if (!groups.has(label)) {
+            groups.set(label, []);
+        }
+        groups.get(label).push(row);
+    }
+    const result = [...groups.entries()].map(([label, rows]) => ({ label, rows }));
+    const collator = new Intl.Collator('en', { numeric: true });
+    if (order === 'asc') {
+        result.sort((a, b) => collator.compare(a.label, b.label));
+    } else if (order === 'desc') {
+        result.sort((a, b) => collator.compare(b.label, a.label));
+    } else if (order === 'count') {
+        result.sort((a, b) => b.rows.length - a.rows.length);
+    }
+    return result;
+}
+
+/**
+ * Split groups into pages of up to pageSize rows, without splitting any group across pages.
+ * A group larger than pageSize gets a page of its own.
+ */
+export function paginateGroups<T>(groups: RowGroup<T>[], pageSize: number): T[][] {
+    const pages: T[][] = [];
+    let currentPage: T[] = [];
+    for (let group of groups) {
+        if (currentPage.length && currentPage.length + group.rows.length > pageSize) {
+            pages.push(currentPage);
+            currentPage = [];
+        }
+        currentPage = currentPage.concat(group.rows);
+    }
+    if (currentPage.length) {
+        pages.push(currentPage);
+    }
+    return pages;
+}
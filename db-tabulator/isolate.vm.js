@@ -1,17 +1,248 @@
 /* eslint-disable no-unused-vars */
-/* global __mwApiGet, __rawReq, __dbQueryResult, postprocess */
+/* global __mwApiGet, __rawReq, __dbQueryResult, __siteInfo, postprocess */
 (async function() {
+	// Responses of bot.api() calls made with { cache: true }, for the duration of this run
+	const apiCache = new Map();
+
+	// Namespace data of the wiki, as in bot.Title of mwn. Null if site info wasn't loaded.
+	const siteInfo = JSON.parse(__siteInfo);
+
+	/**
+	 * Subset of bot.Title of mwn: normalizes titles and looks up namespaces.
+	 * Throws on invalid titles, use Title.newFromText() to get null instead.
+	 */
+	class Title {
+		constructor(title, namespace = 0) {
+			if (!siteInfo) throw new Error('Title: namespace data unavailable');
+			let text = String(title).replace(/[_\s]+/g, ' ').trim();
+			const hashIdx = text.indexOf('#');
+			this.fragment = hashIdx === -1 ? null : text.slice(hashIdx + 1).trim();
+			text = hashIdx === -1 ? text : text.slice(0, hashIdx).trim();
+			if (text.startsWith(':')) {
+				namespace = 0;
+				text = text.slice(1).trim();
+			}
+			const colonIdx = text.indexOf(':');
+			if (colonIdx !== -1) {
+				const prefix = text.slice(0, colonIdx).trim().toLowerCase().replace(/ /g, '_');
+				if (Object.prototype.hasOwnProperty.call(siteInfo.nameIdMap, prefix)) {
+					namespace = siteInfo.nameIdMap[prefix];
+					text = text.slice(colonIdx + 1).trim();
+				}
+			}
+			if (!text || /[<>[\]{}|\x00-\x1f\x7f]/.test(text) || !(namespace in siteInfo.idNameMap)) {
+				throw new Error(`Title: invalid title "${title}"`);
+			}
+			if (!siteInfo.caseSensitiveNamespaces.includes(namespace)) {
+				text = text[0].toUpperCase() + text.slice(1);
+			}
+			this.namespace = namespace;
+			this.title = text.replace(/ /g, '_');
+		}
+		static newFromText(title, namespace = 0) {
+			try {
+				return new Title(title, namespace);
+			} catch (e) {
+				return null;
+			}
+		}
+		static isTalkNamespace(namespaceId) {
+			return namespaceId > 0 && namespaceId % 2 === 1;
+		}
+		getNamespaceId() {
+			return this.namespace;
+		}
+		getNamespacePrefix() {
+			return this.namespace === 0 ? '' : siteInfo.idNameMap[this.namespace].replace(/ /g, '_') + ':';
+		}
+		getMain() {
+			return this.title;
+		}
+		getMainText() {
+			return this.title.replace(/_/g, ' ');
+		}
+		getPrefixedDb() {
+			return this.getNamespacePrefix() + this.title;
+		}
+		getPrefixedText() {
+			return this.getPrefixedDb().replace(/_/g, ' ');
+		}
+		toText() {
+			return this.getPrefixedText();
+		}
+		toString() {
+			return this.getPrefixedDb();
+		}
+		isTalkPage() {
+			return Title.isTalkNamespace(this.namespace);
+		}
+		getTalkPage() {
+			return this.namespace < 0 ? null : Title.newFromText(this.title, this.namespace | 1);
+		}
+		getSubjectPage() {
+			return this.namespace < 0 ? null : Title.newFromText(this.title, this.namespace & ~1);
+		}
+	}
+
+	/** Positions of char in text which are not within nested templates or links */
+	function topLevelIndices(text, char) {
+		const indices = [];
+		let depth = 0;
+		for (let i = 0; i < text.length; i++) {
+			const pair = text.slice(i, i + 2);
+			if (pair === '{{' || pair === '[[') {
+				depth++;
+				i++;
+			} else if ((pair === '}}' || pair === ']]') && depth > 0) {
+				depth--;
+				i++;
+			} else if (text[i] === char && depth === 0) {
+				indices.push(i);
+			}
+		}
+		return indices;
+	}
+
+	/** Parse the wikitext of a transclusion, starting with {{ and ending with }} */
+	function parseTemplate(wikitext) {
+		const inner = wikitext.slice(2, -2);
+		const pipes = topLevelIndices(inner, '|');
+		const parts = [-1, ...pipes].map((start, i) => inner.slice(start + 1, pipes[i] ?? inner.length));
+		const parameters = [];
+		let position = 1;
+		for (let part of parts.slice(1)) {
+			const [equalsIdx] = topLevelIndices(part, '=');
+			if (equalsIdx === undefined) {
+				parameters.push({ name: position++, value: part.trim(), wikitext: '|' + part });
+			} else {
+				const name = part.slice(0, equalsIdx).trim();
+				parameters.push({
+					name: /^\d+$/.test(name) ? parseInt(name) : name,
+					value: part.slice(equalsIdx + 1).trim(),
+					wikitext: '|' + part,
+				});
+			}
+		}
+		return {
+			wikitext,
+			name: parts[0].trim(),
+			parameters,
+			getValue(paramName) {
+				// Last one wins, as in MediaWiki
+				const param = parameters.filter(p => String(p.name) === String(paramName)).pop();
+				return param ? param.value : null;
+			},
+		};
+	}
+
+	/**
+	 * Find template transclusions in wikitext, like parseTemplates() in mwn.
+	 * @param wikitext
+	 * @param [config.recursive] - also parse templates within parameters of templates
+	 * @param [config.namePredicate] - function given the template name, to filter templates
+	 */
+	function parseTemplates(wikitext, config = {}) {
+		const templates = [];
+		let depth = 0, start = 0;
+		for (let i = 0; i < wikitext.length - 1; i++) {
+			// Skip template parameters like {{{1}}}
+			if (depth === 0 && wikitext.startsWith('{{{', i) && wikitext.indexOf('}}}', i) !== -1) {
+				i = wikitext.indexOf('}}}', i) + 2;
+			} else if (wikitext.startsWith('{{', i)) {
+				if (depth === 0) {
+					start = i;
+				}
+				depth++;
+				i++;
+			} else if (wikitext.startsWith('}}', i) && depth > 0) {
+				depth--;
+				i++;
+				if (depth === 0) {
+					const template = parseTemplate(wikitext.slice(start, i + 1));
+					if (!config.namePredicate || config.namePredicate(template.name)) {
+						templates.push(template);
+					}
+					if (config.recursive) {
+						templates.push(...parseTemplates(template.wikitext.slice(2, -2), config));
+					}
+				}
+			}
+		}
+		return templates;
+	}
+
+	const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September',
+		'October', 'November', 'December'];
+	const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+	/**
+	 * Format a date with the same syntax as format() of bot.Date in mwn (eg. 'D MMMM YYYY HH:mm').
+	 * Text in square brackets is left as is.
+	 * @param date - Date, milliseconds, ISO string or MediaWiki timestamp (20240131235959)
+	 * @param format
+	 * @param [zone] - minutes ahead of UTC
+	 */
+	function formatDate(date, format, zone = 0) {
+		const mwTimestamp = typeof date === 'string' && date.match(/^(\d{4})(\d\d)(\d\d)(\d\d)(\d\d)(\d\d)$/);
+		const parsed = mwTimestamp
+			? new Date(Date.UTC(mwTimestamp[1], mwTimestamp[2] - 1, mwTimestamp[3], mwTimestamp[4], mwTimestamp[5], mwTimestamp[6]))
+			: new Date(date);
+		if (isNaN(parsed.getTime())) throw new Error(`formatDate: invalid date ${date}`);
+		const d = new Date(parsed.getTime() + zone * 60000);
+		const pad = num => String(num).padStart(2, '0');
+		const h12 = d.getUTCHours() % 12 || 12;
+		const tokens = {
+			YYYY: d.getUTCFullYear(),
+			YY: pad(d.getUTCFullYear() % 100),
+			Y: d.getUTCFullYear(),
+			MMMM: MONTHS[d.getUTCMonth()],
+			MMM: MONTHS[d.getUTCMonth()].slice(0, 3),
+			MM: pad(d.getUTCMonth() + 1),
+			M: d.getUTCMonth() + 1,
+			dddd: DAYS[d.getUTCDay()],
+			ddd: DAYS[d.getUTCDay()].slice(0, 3),
+			d: d.getUTCDay(),
+			DD: pad(d.getUTCDate()),
+			D: d.getUTCDate(),
+			HH: pad(d.getUTCHours()),
+			H: d.getUTCHours(),
+			hh: pad(h12),
+			h: h12,
+			A: d.getUTCHours() < 12 ? 'AM' : 'PM',
+			mm: pad(d.getUTCMinutes()),
+			m: d.getUTCMinutes(),
+			ss: pad(d.getUTCSeconds()),
+			s: d.getUTCSeconds(),
+		};
+		return format.replace(/\[([^\]]*)]|YYYY|YY|Y|MMMM|MMM|MM|M|dddd|ddd|d|DD|D|HH|H|hh|h|A|mm|m|ss|s/g,
+			(match, literal) => literal !== undefined ? literal : String(tokens[match]));
+	}
+
 	const bot = {
 		async request(url) {
 			if (typeof url !== 'string') throw new Error('bot.request() needs a string url');
 			const response = await __rawReq.applySyncPromise(undefined, [url]);
 			return JSON.parse(response);
 		},
-		async api(params) {
+		/**
+		 * @param params - API parameters, always run as action=query
+		 * @param [options.cache] - reuse the response of an identical call made earlier in this run
+		 */
+		async api(params, options = {}) {
 			if (typeof params !== 'object') throw new Error('bot.api() parameters need to be an object');
-			const response = await __mwApiGet.applySyncPromise(undefined, [JSON.stringify(params)]);
+			const key = JSON.stringify(params);
+			if (options.cache && apiCache.has(key)) {
+				return JSON.parse(apiCache.get(key));
+			}
+			const response = await __mwApiGet.applySyncPromise(undefined, [key]);
+			if (options.cache) {
+				apiCache.set(key, response);
+			}
 			return JSON.parse(response);
-		}
+		},
+		Title,
+		parseTemplates,
+		formatDate,
 	}
 
 	"${JS_CODE}";
@@ -0,0 +1,453 @@
+import * as crypto from "crypto";
+import {EventEmitter} from "events";
+import type {Redis} from "ioredis";
+import type {IncomingHttpHeaders} from "http";
+import {log} from "../botbase";
+
+/**
+ * Queue of web-triggered report updates. Jobs and their progress events are kept in a JobStore
+ * (redis, or memory for local testing), so that clients can reconnect to a job in progress,
+ * and jobs left unfinished by a restart are picked up again.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job {
+    id: string;
+    page: string;
+    revId: number;
+    /** Indices of the queries on the page to update, all if not set */
+    indices?: number[];
+    /** Identifies the user who requested the update, for rate limiting */
+    requester: string;
+    status: JobStatus;
+    attempts: number;
+    createdAt: number;
+    updatedAt: number;
+    error?: string;
+}
+
+/** Progress message, as streamed to the client */
+export interface JobEvent {
+    /** Sequence number of the event within the job */
+    seq: number;
+    code: string;
+    [key: string]: any;
+}
+
+export interface JobStore {
+    saveJob(job: Job): Promise<void>;
+    getJob(id: string): Promise<Job | null>;
+    /** ID of the queued or running job for the given key (page, revision and query indices) */
+    getActiveJobId(key: string): Promise<string | null>;
+    setActiveJobId(key: string, id: string): Promise<void>;
+    clearActiveJobId(key: string): Promise<void>;
+    enqueue(id: string): Promise<void>;
+    /** Take the next job ID off the queue, null if the queue is empty */
+    dequeue(): Promise<string | null>;
+    /** IDs of jobs which are marked as running */
+    getRunningJobIds(): Promise<string[]>;
+    setRunning(id: string, running: boolean): Promise<void>;
+    addEvent(id: string, event: JobEvent): Promise<void>;
+    /** Events of the job, starting from the one with sequence number start */
+    getEvents(id: string, start?: number): Promise<JobEvent[]>;
+    /**
+     * Count a request by the requester.
+     * @returns number of requests by the requester in the current window, including this one
+     */
+    countRequest(requester: string, windowSeconds: number): Promise<number>;
+}
+
+/** Jobs and events are kept for a day, for clients to look up */
+const JOB_TTL = 86400;
+
+export class RedisJobStore implements JobStore {
+    redis: Redis;
+    prefix = 'dbtb-jobs';
+
+    constructor(redis: Redis) {
+        this.redis = redis;
+    }
+
+    async saveJob(job: Job) {
+        await this.redis.set(`${this.prefix}:job:${job.id}`, JSON.stringify(job), 'EX', JOB_TTL);
+    }
+
+    async getJob(id: string) {
+        const json = await this.redis.get(`${this.prefix}:job:${id}`);
+        return json ? JSON.parse(json) as Job : null;
+    }
+
+    async getActiveJobId(key: string) {
+        return this.redis.get(`${this.prefix}:active:${key}`);
+    }
+
+    async setActiveJobId(key: string, id: string) {
+        await this.redis.set(`${this.prefix}:active:${key}`, id, 'EX', JOB_TTL);
+    }
+
+    async clearActiveJobId(key: string) {
+        await this.redis.del(`${this.prefix}:active:${key}`);
+    }
+
+    async enqueue(id: string) {
+        await this.redis.rpush(`${this.prefix}:queue`, id);
+    }
+
+    async dequeue() {
+        return this.redis.lpop(`${this.prefix}:queue`);
+    }
+
+    async getRunningJobIds() {
+        return this.redis.smembers(`${this.prefix}:running`);
+    }
+
+    async setRunning(id: string, running: boolean) {
+        if (running) {
+            await this.redis.sadd(`${this.prefix}:running`, id);
+        } else {
+            await this.redis.srem(`${this.prefix}:running`, id);
+        }
+    }
+
+    async addEvent(id: string, event: JobEvent) {
+        const key = `${this.prefix}:events:${id}`;
+        await this.redis.multi().rpush(key, JSON.stringify(event)).expire(key, JOB_TTL).exec();
+    }
+
+    async getEvents(id: string, start = 0) {
+        const events = await this.redis.lrange(`${this.prefix}:events:${id}`, start, -1);
+        return events.map(json => JSON.parse(json) as JobEvent);
+    }
+
+    async countRequest(requester: string, windowSeconds: number) {
+        const key = `${this.prefix}:requests:${requester}`;
+        const [, [, count]] = await this.redis.multi()
+            .set(key, 0, 'EX', windowSeconds, 'NX')
+            .incr(key)
+            .exec();
+        return count as number;
+    }
+}
+
+/** Stand-in for RedisJobStore for running locally. Nothing survives a restart. */
+export class MemoryJobStore implements JobStore {
+    jobs: Map<string, Job> = new Map();
+    activeJobIds: Map<string, string> = new Map();
+    queue: string[] = [];
+    running: Set<string> = new Set();
+    events: Map<string, JobEvent[]> = new Map();
+    requests: Map<string, { count: number, expiry: number }> = new Map();
+
+    async saveJob(job: Job) {
+        this.jobs.set(job.id, { ...job });
+    }
+
+    async getJob(id: string) {
+        const job = this.jobs.get(id);
+        return job ? { ...job } : null;
+    }
+
+    async getActiveJobId(key: string) {
+        return this.activeJobIds.get(key) ?? null;
+    }
+
+    async setActiveJobId(key: string, id: string) {
+        this.activeJobIds.set(key, id);
+    }
+
+    async clearActiveJobId(key: string) {
+        this.activeJobIds.delete(key);
+    }
+
+    async enqueue(id: string) {
+        this.queue.push(id);
+    }
+
+    async dequeue() {
+        return this.queue.shift() ?? null;
+    }
+
+    async getRunningJobIds() {
+        return [...this.running];
+    }
+
+    async setRunning(id: string, running: boolean) {
+        if (running) {
+            this.running.add(id);
+        } else {
+            this.running.delete(id);
+        }
+    }
+
+    async addEvent(id: string, event: JobEvent) {
+        this.events.set(id, [...(this.events.get(id) || []), event]);
+    }
+
+    async getEvents(id: string, start = 0) {
+        return (this.events.get(id) || []).slice(start);
+    }
+
+    async countRequest(requester: string, windowSeconds: number) {
+        let entry = this.requests.get(requester);
+        if (!entry || entry.expiry < Date.now()) {
+            entry = { count: 0, expiry: Date.now() + windowSeconds * 1000 };
+            this.requests.set(requester, entry);
+        }
+        return ++entry.count;
+    }
+}
+
+export class RateLimitError extends Error {}
+
+function getJobKey(page: string, revId: number, indices?: number[]): string {
+    return page + ':' + revId + (indices ? ':' + indices.join(',') : '');
+}
+
+/**
+ * Client IP of a web request, which identifies the requester for rate limiting. Toolforge's front
+ * proxy appends it to X-Forwarded-For. Earlier entries come from the client, which can send any,
+ * so only the last one is used.
+ */
+export function getRequester(req: { headers: IncomingHttpHeaders, ip?: string }): string {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const header = Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor;
+    return header?.split(',').pop().trim() || req.ip;
+}
+
+/** Event codes after which a job doesn't produce any more events */
+export const FINAL_EVENT_CODES = ['completed', 'job-failed'];
+
+/** Interval for checking for events of jobs run by other processes */
+const FOLLOW_POLL_INTERVAL = 2000;
+
+export interface JobQueueOptions {
+    /** Number of jobs run at the same time by this process */
+    concurrency: number;
+    /** Number of times a job is tried before it is marked as failed */
+    maxAttempts: number;
+    /** Maximum number of jobs a requester can submit within rateLimitWindow seconds */
+    rateLimit: number;
+    rateLimitWindow: number;
+}
+
+/**
+ * Does the work of a job, reporting progress through notify().
+ * Throwing an error makes the job be retried.
+ */
+export type JobRunner = (job: Job, notify: (code: string, args?: Record<string, any>) => void) => Promise<void>;
+
+export class JobQueue {
+    store: JobStore;
+    runner: JobRunner;
+    options: JobQueueOptions;
+
+    /** Number of jobs being run by this process */
+    numRunning = 0;
+
+    /** Emits events of jobs run by this process, with the job ID as event name */
+    emitter = new EventEmitter();
+
+    /** Next sequence number of events of jobs run by this process */
+    eventSeqs: Map<string, number> = new Map();
+
+    constructor(store: JobStore, runner: JobRunner, options: JobQueueOptions) {
+        this.store = store;
+        this.runner = runner;
+        this.options = options;
+        this.emitter.setMaxListeners(0);
+    }
+
+    /**
+     * Submit a job for updating the reports on the page, unless one is already queued or running
+     * for the same revision of the page and the same reports, in which case that one is returned.
+     * @param page
+     * @param revId
+     * @param requester
+     * @param indices - indices of the reports on the page to update, all if not given
+     * @throws RateLimitError if the requester has submitted too many jobs recently
+     */
+    async submit(page: string, revId: number, requester: string, indices?: number[]): Promise<{ job: Job, existing: boolean }> {
+        const key = getJobKey(page, revId, indices);
+        const activeJobId = await this.store.getActiveJobId(key);
+        const activeJob = activeJobId && await this.store.getJob(activeJobId);
+        if (activeJob && ['queued', 'running'].includes(activeJob.status)) {
+            return { job: activeJob, existing: true };
+        }
+        await this.checkRateLimit(requester);
+        const job: Job = {
+            id: crypto.randomBytes(8).toString('hex'),
+            page,
+            revId,
+            indices,
+            requester,
+            status: 'queued',
+            attempts: 0,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+        };
+        await this.store.saveJob(job);
+        await this.store.setActiveJobId(key, job.id);
+        this.eventSeqs.set(job.id, 0);
+        await this.addEvent(job.id, 'job-queued', { jobId: job.id });
+        await this.store.enqueue(job.id);
+        this.pump();
+        return { job, existing: false };
+    }
+
+    /**
+     * Count a request towards the rate limit of the requester. Also used for previews, which
+     * run queries without going through the queue.
+     * @throws RateLimitError if the requester has made too many requests recently
+     */
+    async checkRateLimit(requester: string) {
+        if (await this.store.countRequest(requester, this.options.rateLimitWindow) > this.options.rateLimit) {
+            throw new RateLimitError(`Too many updates requested. Try again in a while.`);
+        }
+    }
+
+    /**
+     * Re-queue jobs which were running when the process last stopped, and start
+     * running queued jobs. To be called on startup.
+     */
+    async recover() {
+        for (let id of await this.store.getRunningJobIds()) {
+            const job = await this.store.getJob(id);
+            await this.store.setRunning(id, false);
+            if (job) {
+                log(`[W] Re-queueing job ${id} for ${job.page} which was interrupted`);
+                job.status = 'queued';
+                job.updatedAt = Date.now();
+                await this.store.saveJob(job);
+                await this.store.enqueue(id);
+            }
+        }
+        this.pump();
+    }
+
+    /** Start running queued jobs, as many as concurrency allows */
+    pump() {
+        while (this.numRunning < this.options.concurrency) {
+            this.numRunning++;
+            this.runNext().catch(err => {
+                log(`[E] Error in running job queue`);
+                log(err);
+            }).finally(() => {
+                this.numRunning--;
+            });
+        }
+    }
+
+    async runNext() {
+        let id: string;
+        while ((id = await this.store.dequeue())) {
+            const job = await this.store.getJob(id);
+            if (!job || job.status !== 'queued') {
+                continue;
+            }
+            await this.runJob(job);
+        }
+    }
+
+    async runJob(job: Job) {
+        job.status = 'running';
+        job.attempts++;
+        job.updatedAt = Date.now();
+        await this.store.saveJob(job);
+        await this.store.setRunning(job.id, true);
+        if (!this.eventSeqs.has(job.id)) {
+            // Job submitted by another process, or before a restart
+            this.eventSeqs.set(job.id, (await this.store.getEvents(job.id)).length);
+        }
+        try {
+            await this.runner(job, (code, args) => {
+                this.addEvent(job.id, code, args).catch(err => {
+                    log(`[E] Failed to record event ${code} of job ${job.id}`);
+                    log(err);
+                });
+            });
+            job.status = 'completed';
+        } catch (err) {
+            log(`[E] Job ${job.id} for ${job.page} failed (attempt ${job.attempts})`);
+            log(err);
+            job.error = err.message;
+            job.status = job.attempts < this.options.maxAttempts ? 'queued' : 'failed';
+        }
+        job.updatedAt = Date.now();
+        await this.store.saveJob(job);
+        await this.store.setRunning(job.id, false);
+        if (job.status === 'queued') {
+            await this.addEvent(job.id, 'job-retrying', { error: job.error, attempt: job.attempts });
+            await this.store.enqueue(job.id);
+        } else {
+            await this.store.clearActiveJobId(getJobKey(job.page, job.revId, job.indices));
+            if (job.status === 'completed') {
+                await this.addEvent(job.id, 'completed');
+            } else {
+                await this.addEvent(job.id, 'job-failed', { error: job.error });
+            }
+        }
+    }
+
+    async addEvent(jobId: string, code: string, args?: Record<string, any>) {
+        const seq = this.eventSeqs.get(jobId);
+        this.eventSeqs.set(jobId, seq + 1);
+        const event: JobEvent = { ...args, seq, code };
+        if (FINAL_EVENT_CODES.includes(code)) {
+            this.eventSeqs.delete(jobId);
+        }
+        this.emitter.emit(jobId, event);
+        await this.store.addEvent(jobId, event);
+    }
+
+    /**
+     * Get all events of the job so far, and the following ones as they happen. Events of jobs
+     * run by this process are delivered right away, those of jobs run by other processes are
+     * picked up from the store periodically.
+     * @param jobId
+     * @param listener - called for each event, in order, till a final event
+     * @returns function to stop listening
+     */
+    async follow(jobId: string, listener: (event: JobEvent) => void): Promise<() => void> {
+        let nextSeq = 0;
+        let finished = false;
+        let pollTimeout: NodeJS.Timeout;
+        const stop = () => {
+            finished = true;
+            clearTimeout(pollTimeout);
+            this.emitter.off(jobId, deliver);
+        };
+        // Events can arrive both from the emitter and the store, or out of order if the
+        // store is behind, so only the next one in sequence is delivered
+        const pending: Map<number, JobEvent> = new Map();
+        function deliver(event: JobEvent) {
+            if (finished || event.seq < nextSeq) {
+                return;
+            }
+            pending.set(event.seq, event);
+            while (!finished && pending.has(nextSeq)) {
+                const next = pending.get(nextSeq);
+                pending.delete(nextSeq++);
+                listener(next);
+                if (FINAL_EVENT_CODES.includes(next.code)) {
+                    stop();
+                }
+            }
+        }
+        const poll = async () => {
+            try {
+                // Events are stored in sequence, so only newer ones are read
+                (await this.store.getEvents(jobId, nextSeq)).forEach(deliver);
+            } catch (err) {
+                log(`[E] Failed to get events of job ${jobId}`);
+                log(err);
+            }
+            if (!finished) {
+                pollTimeout = setTimeout(poll, FOLLOW_POLL_INTERVAL);
+            }
+        };
+        this.emitter.on(jobId, deliver);
+        await poll();
+        return stop;
+    }
+}
@@ -1,6 +1,15 @@
 import {argv, bot, emailOnError, log} from "../botbase";
 import {writeFile} from "../utils";
-import {checkShutoff, FAKE_OUTPUT_FILE, fetchQueries, processQueries, metadataStore} from "./app";
+import {
+	checkShutoff,
+	CONCURRENCY,
+	FAKE_OUTPUT_FILE,
+	fetchQueries,
+	processQueries,
+	metadataStore,
+	RUN_TIME_BUDGET
+} from "./app";
+import {planRun, reportDeferred} from "./scheduler";
 
 /**
  * Specs:
@@ -19,11 +28,11 @@ import {checkShutoff, FAKE_OUTPUT_FILE, fetchQueries, processQueries, metadataSt
  * Support frequency parameter
  * Support hiding namespace number
  * Support row_template and skip_table aka Listeriabot
+ * Disable auto-updates for query if it times out N number of consecutive times
 
  * Pending:
  * Automatic query limiting: use LIMIT = pagination * max_pages
  * Consider sane defaults for pagination and max_pages
- * Disable auto-updates for query if it times out N number of consecutive times
  *
  */
 
@@ -51,6 +60,15 @@ import {checkShutoff, FAKE_OUTPUT_FILE, fetchQueries, processQueries, metadataSt
 	const queries = await fetchQueries();
 	log(`[S] Fetched queries`);
 
-	await processQueries(queries);
+	const plan = await planRun(queries, {
+		budget: RUN_TIME_BUDGET,
+		concurrency: CONCURRENCY,
+		getRunHistory: (query, limit) => metadataStore.getRunHistory(query, limit),
+	});
+	const numPlanned = Object.values(plan.queries).flat().length;
+	log(`[i] Running ${numPlanned} queries on ${Object.keys(plan.queries).length} pages, estimated to take ${plan.estimatedRuntime.toFixed(0)} seconds. Deferred ${plan.deferred.length} queries.`);
+	await reportDeferred(plan);
+
+	await processQueries(plan.queries);
 
 })().catch(e => emailOnError(e, 'db-tabulator'));
@@ -0,0 +1,62 @@
+/**
+ * In-memory joins of the result sets of multiple SQL blocks (sql1, sql2, ...) of a report,
+ * used when the data lives in different databases which can't be joined in SQL.
+ */
+
+export type JoinType = 'left' | 'inner';
+
+type Row = Record<string, any>;
+
+/**
+ * Join the result sets on the join key column. The first result set drives the join, like
+ * the left table in SQL. A row matching multiple rows of another result set is repeated for
+ * each match. As in SQL, NULL keys don't match anything. Columns of later result sets are added
+ * after the existing columns, leaving out their join key column. Column names that are already
+ * taken are suffixed with the number of the result set.
+ */
+export function mergeResultSets(resultSets: Row[][], joinKey: string, joinType: JoinType = 'left'): Row[] {
+    resultSets.forEach((rows, idx) => {
+        if (rows.length && !(joinKey in rows[0])) {
+            throw new MergeError(`Join key column "${joinKey}" not found in the result of sql${idx + 1}`);
+        }
+    });
+    let merged = resultSets[0];
+    let columns = new Set(Object.keys(merged[0] || {}));
+    for (let [idx, rows] of resultSets.slice(1).entries()) {
+        const setNumber = idx + 2;
+        const columnMapping = Object.keys(rows[0] || {})
+            .filter(column => column !== joinKey)
+            .map(column => [column, columns.has(column) ? `${column}_${setNumber}` : column]);
+        columnMapping.forEach(([, newName]) => columns.add(newName));
+
+        const rowsByKey: Map<string, Row[]> = new Map();
+        for (let row of rows) {
+            if (row[joinKey] === null || row[joinKey] === undefined) {
+                continue;
+            }
+            const key = String(row[joinKey]);
+            if (!rowsByKey.has(key)) {
+                rowsByKey.set(key, []);
+            }
+            rowsByKey.get(key).push(row);
+        }
+
+        merged = merged.flatMap(row => {
+            const key = row[joinKey];
+            const matches = key === null || key === undefined ? undefined : rowsByKey.get(String(key));
+            if (!matches) {
+                if (joinType === 'inner') {
+                    return [];
+                }
+                return [{ ...row, ...Object.fromEntries(columnMapping.map(([, newName]) => [newName, null])) }];
+            }
+            return matches.map(match => ({
+                ...row,
+                ...Object.fromEntries(columnMapping.map(([column, newName]) => [newName, match[column]]))
+            }));
+        });
+    }
+    return merged;
+}
+
+export class MergeError extends Error {}
@@ -0,0 +1,101 @@
+import {Query} from "./app";
+import {getTemplateMd5, StoredQuery} from "./MetadataStore";
+
+/**
+ * Checks of the stored metadata against the wiki, for drift from events missed by the
+ * eventstream metadata maintainer. Run through audit.ts.
+ */
+
+/**
+ * not-in-category - page in the store is no longer in the subscriptions category
+ * untracked - page in the category is not in the store
+ * not-categorized - page transcludes the template but isn't in the category (not fixable here)
+ * dummy-row - page has reports but is recorded as only transcluding reports from other pages
+ * stale - stored queries don't match the reports on the page
+ */
+export type DiscrepancyType = 'not-in-category' | 'untracked' | 'not-categorized' | 'dummy-row' | 'stale';
+
+export interface Discrepancy {
+    type: DiscrepancyType;
+    page: string;
+    details?: string;
+}
+
+export interface AuditInput {
+    categoryMembers: Set<string>;
+    /** Pages transcluding the template, other than in main and template namespaces */
+    transclusions: Set<string>;
+    rows: StoredQuery[];
+    /** Valid queries currently on the pages in the store which are in the category, keyed by page */
+    currentQueries: Record<string, Query[]>;
+}
+
+/** Discrepancies which are fixed by updating the metadata of the page */
+export const PAGE_UPDATE_FIXES: DiscrepancyType[] = ['dummy-row', 'stale'];
+
+export function isDummyRow(row: StoredQuery): boolean {
+    return row.idx <= 0;
+}
+
+export function findDiscrepancies(input: AuditInput): Discrepancy[] {
+    const {categoryMembers, transclusions, rows, currentQueries} = input;
+    const discrepancies: Discrepancy[] = [];
+    const rowsByPage: Map<string, StoredQuery[]> = new Map();
+    for (let row of rows) {
+        rowsByPage.set(row.page, (rowsByPage.get(row.page) || []).concat(row));
+    }
+
+    for (let page of rowsByPage.keys()) {
+        if (!categoryMembers.has(page)) {
+            discrepancies.push({ type: 'not-in-category', page });
+        }
+    }
+    for (let page of categoryMembers) {
+        if (!rowsByPage.has(page)) {
+            discrepancies.push({ type: 'untracked', page });
+        }
+    }
+    for (let page of transclusions) {
+        if (!categoryMembers.has(page)) {
+            discrepancies.push({ type: 'not-categorized', page });
+        }
+    }
+
+    for (let [page, pageRows] of rowsByPage) {
+        if (!categoryMembers.has(page)) {
+            continue;
+        }
+        const queries = currentQueries[page] || [];
+        const storedRows = pageRows.filter(row => !isDummyRow(row));
+        if (queries.length && storedRows.length < pageRows.length) {
+            discrepancies.push({
+                type: 'dummy-row',
+                page,
+                details: `${queries.length} report(s) on page`,
+            });
+        }
+        const stored = new Map(storedRows.map(row => [row.queryId, row]));
+        const problems = [];
+        for (let query of queries) {
+            const row = stored.get(query.queryId);
+            if (!row) {
+                problems.push(`${query.queryId} (#${query.idx}) not stored`);
+            } else {
+                if (row.idx !== query.idx) {
+                    problems.push(`${query.queryId} stored as #${row.idx}, now #${query.idx}`);
+                }
+                if (row.templateMd5 !== getTemplateMd5(query)) {
+                    problems.push(`${query.queryId} (#${query.idx}) template changed since stored`);
+                }
+            }
+            stored.delete(query.queryId);
+        }
+        for (let row of stored.values()) {
+            problems.push(`${row.queryId} (#${row.idx}) no longer on page`);
+        }
+        if (problems.length) {
+            discrepancies.push({ type: 'stale', page, details: problems.join('; ') });
+        }
+    }
+    return discrepancies;
+}
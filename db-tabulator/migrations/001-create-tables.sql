@@ -0,0 +1,41 @@
+-- Tables as they were before migrations were introduced. Existing tables are left as they are.
+CREATE TABLE IF NOT EXISTS dbreports(
+    page VARCHAR(255),
+    idx SMALLINT UNSIGNED,
+    templateMd5 CHAR(32),
+    intervalDays SMALLINT UNSIGNED,
+    lastUpdate DATETIME,
+    rowDigests MEDIUMTEXT,
+    consecutiveFailures SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+    lastError VARCHAR(255),
+    schedule VARCHAR(255)
+);
+ALTER TABLE dbreports ADD COLUMN IF NOT EXISTS rowDigests MEDIUMTEXT;
+ALTER TABLE dbreports ADD COLUMN IF NOT EXISTS consecutiveFailures SMALLINT UNSIGNED NOT NULL DEFAULT 0;
+ALTER TABLE dbreports ADD COLUMN IF NOT EXISTS lastError VARCHAR(255);
+ALTER TABLE dbreports ADD COLUMN IF NOT EXISTS schedule VARCHAR(255);
+
+CREATE TABLE IF NOT EXISTS dbreports_history(
+    page VARCHAR(255),
+    idx SMALLINT UNSIGNED,
+    runAt DATETIME,
+    rowCount INT UNSIGNED,
+    queryRuntime FLOAT,
+    resultHash CHAR(32),
+    INDEX (page, idx, runAt)
+);
+
+CREATE TABLE IF NOT EXISTS dbreports_runs(
+    runAt DATETIME,
+    page VARCHAR(255),
+    idx SMALLINT UNSIGNED,
+    context VARCHAR(20),
+    sqlHash CHAR(32),
+    queryRuntime FLOAT,
+    rowCount INT UNSIGNED,
+    outcome VARCHAR(20),
+    errorCode VARCHAR(64),
+    errorMessage VARCHAR(255),
+    INDEX (page, runAt),
+    INDEX (outcome, runAt)
+);
@@ -0,0 +1,7 @@
+-- Identical templates on a page have the same templateMd5, only one row of each is kept
+DELETE FROM dbreports WHERE page IS NULL OR templateMd5 IS NULL;
+ALTER IGNORE TABLE dbreports
+    MODIFY page VARCHAR(255) NOT NULL,
+    MODIFY templateMd5 CHAR(32) NOT NULL,
+    ADD PRIMARY KEY (page, templateMd5),
+    ADD INDEX (page, idx);
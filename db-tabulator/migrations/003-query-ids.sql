@@ -0,0 +1,15 @@
+-- Reports are identified by queryId: the id parameter, or a hash of the normalized SQL.
+-- Until their page is next processed, existing rows are identified by templateMd5.
+ALTER TABLE dbreports ADD COLUMN IF NOT EXISTS queryId VARCHAR(100);
+UPDATE dbreports SET queryId = CONCAT('md5:', templateMd5) WHERE queryId IS NULL;
+ALTER TABLE dbreports
+    MODIFY queryId VARCHAR(100) NOT NULL,
+    DROP PRIMARY KEY,
+    ADD PRIMARY KEY (page, queryId);
+
+ALTER TABLE dbreports_history ADD COLUMN IF NOT EXISTS queryId VARCHAR(100);
+UPDATE dbreports_history h
+    JOIN dbreports d ON h.page = d.page AND h.idx = d.idx
+    SET h.queryId = d.queryId
+    WHERE h.queryId IS NULL;
+ALTER TABLE dbreports_history ADD INDEX IF NOT EXISTS history_query (page, queryId, runAt);
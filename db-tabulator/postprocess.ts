@@ -1,4 +1,4 @@
-import {argv, AuthManager, fs, log, Mwn} from "../botbase";
+import {argv, AuthManager, bot, fs, log, Mwn} from "../botbase";
 import {fork} from "child_process";
 import EventEmitter from "events";
 import type {Query} from "./app";
@@ -26,7 +26,12 @@ const postprocessCodeTemplate = fs.readFileSync(__dirname + '/isolate.vm.js')
     .toString()
     .replace(/^\/\*.*?\*\/$/m, ''); // remove linter comments /* ... */
 
-export async function processQueriesExternally(page: string, notifier?: EventEmitter) {
+/**
+ * @param page
+ * @param indices - indices of the queries on the page to run
+ * @param notifier
+ */
+export async function processQueriesExternally(page: string, indices: number[], notifier?: EventEmitter) {
     const controller = new AbortController();
     await timedPromise(
         processTimeout,
@@ -34,7 +39,7 @@ export async function processQueriesExternally(page: string, notifier?: EventEmi
             const { signal } = controller;
             const child = fork(
                 __dirname + '/external-update.js',
-                ['--page', page].concat(argv.fake ? ['--fake'] : []),
+                ['--page', page, '--idx', indices.join(',')].concat(argv.fake ? ['--fake'] : []),
                 {
                     execArgv: ['--no-node-snapshot'], // required for node 20+
                     signal
@@ -104,6 +109,9 @@ export async function applyJsPostProcessing(rows: Record<string, string>[], jsCo
 
     await jail.set('__rawReq', new Reference(makeSandboxedHttpRequest));
 
+    // For the Title helper in the sandbox
+    await jail.set('__siteInfo', JSON.stringify(getSiteInfoForSandbox()));
+
     let result = rows;
 
     await timedPromise(
@@ -168,6 +176,21 @@ async function doPostProcessing(context, jsCode: string, query: Query) {
     }
 }
 
+/**
+ * Namespace data of the bot, loaded by getSiteInfo() in the entry point. Null if not loaded,
+ * in which case the Title helper throws.
+ */
+function getSiteInfoForSandbox() {
+    if (!bot.Title.idNameMap) {
+        return null;
+    }
+    return {
+        idNameMap: bot.Title.idNameMap,
+        nameIdMap: bot.Title.nameIdMap,
+        caseSensitiveNamespaces: bot.Title.caseSensitiveNamespaces,
+    };
+}
+
 async function makeSandboxedHttpRequest(url: string) {
     let domain = supportedDomains.find(domain => url.startsWith(domain.prefix));
     if (!domain) {
@@ -0,0 +1,105 @@
+import * as crypto from "crypto";
+
+/**
+ * Hash of each row of a result set, keyed by the value in the row's key column.
+ * Stored after each run, so that the next run can tell which rows changed.
+ */
+export type RowDigests = Record<string, string>;
+
+export interface RowChanges {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export function stringifyCell(value: string | number | null | Date): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    return String(value);
+}
+
+/**
+ * Key of each row, in order. Rows having the same value in the key column are told apart
+ * by suffixes: the second one is "value#2", and so on.
+ * @param rows - rows as returned from the database
+ * @param keyColumnIdx - 1-based index of the column which identifies a row
+ */
+export function computeRowKeys(rows: Array<Record<string, any>>, keyColumnIdx = 1): string[] {
+    const seen = new Set<string>();
+    return rows.map(row => {
+        const value = stringifyCell(Object.values(row)[keyColumnIdx - 1]);
+        let key = value;
+        for (let i = 2; seen.has(key); i++) {
+            key = value + '#' + i;
+        }
+        seen.add(key);
+        return key;
+    });
+}
+
+/**
+ * @param rows - rows as returned from the database
+ * @param keyColumnIdx - 1-based index of the column which identifies a row
+ */
+export function computeRowDigests(rows: Array<Record<string, any>>, keyColumnIdx = 1): RowDigests {
+    const digests: RowDigests = {};
+    const keys = computeRowKeys(rows, keyColumnIdx);
+    rows.forEach((row, rowIdx) => {
+        const cells = Object.values(row).map(stringifyCell);
+        digests[keys[rowIdx]] = crypto.createHash('md5').update(JSON.stringify(cells)).digest('hex').slice(0, 16);
+    });
+    return digests;
+}
+
+/** Hash of the result as a whole, for the run history */
+export function hashRowDigests(digests: RowDigests): string {
+    return crypto.createHash('md5').update(JSON.stringify(digests)).digest('hex');
+}
+
+export function diffRowDigests(previous: RowDigests, current: RowDigests): RowChanges {
+    const changes: RowChanges = { added: [], removed: [], changed: [] };
+    for (let [key, digest] of Object.entries(current)) {
+        if (!(key in previous)) {
+            changes.added.push(key);
+        } else if (previous[key] !== digest) {
+            changes.changed.push(key);
+        }
+    }
+    changes.removed = Object.keys(previous).filter(key => !(key in current));
+    return changes;
+}
+
+/**
+ * Summary of row changes for use in edit summaries, eg. "+3 rows, −1 row, 2 changed".
+ * Empty string if nothing changed.
+ */
+export function describeRowChanges(changes: RowChanges): string {
+    const plural = (count: number) => count === 1 ? 'row' : 'rows';
+    const parts = [];
+    if (changes.added.length) {
+        parts.push(`+${changes.added.length} ${plural(changes.added.length)}`);
+    }
+    if (changes.removed.length) {
+        parts.push(`−${changes.removed.length} ${plural(changes.removed.length)}`);
+    }
+    if (changes.changed.length) {
+        parts.push(`${changes.changed.length} changed`);
+    }
+    return parts.join(', ');
+}
+
+/** Class of the trend table below the footer, by which isNoopEdit() recognizes it */
+export const TREND_TABLE_CLASS = 'dbr-trend';
+
+/**
+ * Check whether an edit would change nothing other than the volatile parameters of the
+ * footer (time of update, query runtime and estimated rows examined) and the trend table,
+ * in which case it can be skipped. The trend table always has a row for the current run.
+ */
+export function isNoopEdit(oldText: string, newText: string): boolean {
+    const trendTable = new RegExp(`\\{\\| class="[^"\\n]*\\b${TREND_TABLE_CLASS}\\b[^\\n]*\\n[\\s\\S]*?\\n\\|\\}`, 'g');
+    const normalize = (text: string) => text
+        .replace(/\|(?:last_updated|query_runtime|estimated_rows)=[^|}]*/g, '')
+        .replace(trendTable, '');
+    return normalize(oldText) === normalize(newText);
+}
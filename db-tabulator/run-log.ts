@@ -0,0 +1,205 @@
+import {toolsdb} from "../db";
+import {log} from "../botbase";
+import {MigrationRunner} from "../migrations";
+import {MIGRATIONS_DIR} from "./MariadbMetadataStore";
+
+/**
+ * Structured log of query runs, for finding out why a report did or didn't update.
+ * Kept in ToolsDB, or in a local SQLite file if ToolsDB is not reachable.
+ */
+
+/**
+ * updated - report saved
+ * unchanged - report not saved as nothing but the timestamp changed
+ * error - error shown on the report (SQL error, invalid config, etc.)
+ * crashed - unexpected error, report not saved
+ * deferred - not run by the cron job for lack of time, see scheduler.ts
+ */
+export type RunOutcome = 'updated' | 'unchanged' | 'error' | 'crashed' | 'deferred';
+
+export const RUN_OUTCOMES: RunOutcome[] = ['updated', 'unchanged', 'error', 'crashed', 'deferred'];
+
+/** Values of Query.context */
+export const RUN_CONTEXTS = ['cron', 'web', 'eventstream', 'manual'];
+
+export interface RunLogEntry {
+    timestamp: Date;
+    page: string;
+    idx: number;
+    /** cron, web, eventstream or manual */
+    context: string;
+    /** MD5 of the SQL, to tell whether the query changed between runs */
+    sqlHash: string | null;
+    /** Seconds, null if the query wasn't run */
+    queryRuntime: number | null;
+    rowCount: number | null;
+    outcome: RunOutcome;
+    errorCode: string | null;
+    errorMessage: string | null;
+}
+
+export interface RunLogFilters {
+    page?: string;
+    context?: string;
+    outcome?: string;
+    limit: number;
+}
+
+export interface RunLog {
+    init(): Promise<void>;
+    record(entry: RunLogEntry): Promise<void>;
+    /** Entries matching the filters, latest first */
+    search(filters: RunLogFilters): Promise<RunLogEntry[]>;
+}
+
+/** Error messages are truncated to fit the column */
+const MAX_ERROR_LENGTH = 255;
+
+/** Column names in both the ToolsDB and SQLite tables */
+const COLUMNS = ['runAt', 'page', 'idx', 'context', 'sqlHash', 'queryRuntime', 'rowCount', 'outcome', 'errorCode', 'errorMessage'];
+
+function toRow(entry: RunLogEntry) {
+    return [
+        entry.timestamp, entry.page, entry.idx, entry.context, entry.sqlHash, entry.queryRuntime,
+        entry.rowCount, entry.outcome, entry.errorCode, entry.errorMessage?.slice(0, MAX_ERROR_LENGTH) ?? null,
+    ];
+}
+
+function fromRow(row: Record<string, any>): RunLogEntry {
+    return {
+        timestamp: new Date(row.runAt),
+        page: row.page,
+        idx: Number(row.idx),
+        context: row.context,
+        sqlHash: row.sqlHash,
+        queryRuntime: row.queryRuntime === null ? null : Number(row.queryRuntime),
+        rowCount: row.rowCount === null ? null : Number(row.rowCount),
+        outcome: row.outcome,
+        errorCode: row.errorCode,
+        errorMessage: row.errorMessage,
+    };
+}
+
+function makeSearchQuery(filters: RunLogFilters): [string, any[]] {
+    const conditions = [], values = [];
+    for (let column of ['page', 'context', 'outcome'] as const) {
+        if (filters[column]) {
+            conditions.push(`${column} = ?`);
+            values.push(filters[column]);
+        }
+    }
+    return [
+        `SELECT ${COLUMNS.join(', ')} FROM dbreports_runs` +
+        (conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '') +
+        ` ORDER BY runAt DESC LIMIT ?`,
+        [...values, filters.limit]
+    ];
+}
+
+export class MariadbRunLog implements RunLog {
+    db: toolsdb;
+
+    async init() {
+        this.db = new toolsdb('dbreports_p');
+        await new MigrationRunner(this.db, MIGRATIONS_DIR).migrate();
+    }
+
+    async record(entry: RunLogEntry) {
+        await this.db.run(`
+            INSERT INTO dbreports_runs(${COLUMNS.join(', ')})
+            VALUES (${COLUMNS.map(() => '?').join(', ')})
+        `, toRow(entry));
+    }
+
+    async search(filters: RunLogFilters) {
+        const [sql, values] = makeSearchQuery(filters);
+        return (await this.db.query(sql, values)).map(fromRow);
+    }
+}
+
+export class SqliteRunLog implements RunLog {
+    db: import('sqlite').Database;
+    file: string;
+
+    constructor(file = process.env.DBTB_SQLITE_FILE || __dirname + '/dbreports.db') {
+        this.file = file;
+    }
+
+    async init() {
+        // Import dynamically as this has native dependencies
+        const {open} = await import('sqlite');
+        const sqlite3 = await import('sqlite3');
+        this.db = await open({ filename: this.file, driver: sqlite3.Database });
+        await this.db.exec(`
+            CREATE TABLE IF NOT EXISTS dbreports_runs(
+                runAt TEXT,
+                page TEXT,
+                idx INTEGER,
+                context TEXT,
+                sqlHash TEXT,
+                queryRuntime REAL,
+                rowCount INTEGER,
+                outcome TEXT,
+                errorCode TEXT,
+                errorMessage TEXT
+            );
+            CREATE INDEX IF NOT EXISTS dbreports_runs_page ON dbreports_runs(page, runAt);
+        `);
+    }
+
+    async record(entry: RunLogEntry) {
+        const row = toRow(entry);
+        row[0] = entry.timestamp.toISOString();
+        await this.db.run(`
+            INSERT INTO dbreports_runs(${COLUMNS.join(', ')})
+            VALUES (${COLUMNS.map(() => '?').join(', ')})
+        `, row);
+    }
+
+    async search(filters: RunLogFilters) {
+        const [sql, values] = makeSearchQuery(filters);
+        return (await this.db.all(sql, values)).map(fromRow);
+    }
+}
+
+/**
+ * Uses ToolsDB if available, otherwise SQLite. Initialized on first use, so that
+ * entry points don't need to.
+ */
+export class HybridRunLog implements RunLog {
+    stores: RunLog[] = [
+        new MariadbRunLog(),
+        new SqliteRunLog(),
+    ];
+    activeStore: RunLog;
+    initPromise: Promise<void>;
+
+    init(): Promise<void> {
+        if (!this.initPromise) {
+            this.initPromise = (async () => {
+                for (const store of this.stores) {
+                    try {
+                        await store.init();
+                        this.activeStore = store;
+                        return;
+                    } catch (e) {
+                        log(`[E] Failed to init ${store.constructor.name}`);
+                        log(e);
+                    }
+                }
+                throw new Error('No run log store could be initialized');
+            })();
+        }
+        return this.initPromise;
+    }
+
+    async record(entry: RunLogEntry) {
+        await this.init();
+        return this.activeStore.record(entry);
+    }
+
+    async search(filters: RunLogFilters) {
+        await this.init();
+        return this.activeStore.search(filters);
+    }
+}
@@ -0,0 +1,232 @@
+/**
+ * Update schedules of reports: either every N days (interval=N), or at the times given in
+ * schedule=, as a cron expression ("0 3 * * 1") or a weekday/hour spec ("Mondays 03:00 UTC").
+ * All times are in UTC.
+ *
+ * The cron job runs every few hours, so reports don't run exactly when due but on the first
+ * run after that. Due dates are brought forward so that a report which finished some time after
+ * its due time last time is not pushed to the next run: by INTERVAL_SLACK for intervals, which
+ * count from the last update, and by DUE_TOLERANCE for cron schedules, whose times are fixed.
+ */
+
+export type Schedule =
+    | { type: 'interval', days: number }
+    | { type: 'cron', spec: string, fields: CronFields };
+
+export interface CronFields {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    /** Whether the day-of-month and day-of-week fields were not * */
+    daysOfMonthRestricted: boolean;
+    daysOfWeekRestricted: boolean;
+}
+
+export const DUE_TOLERANCE = 10 * 60e3;
+
+/** Half a day, so that a daily report updated at 04:30 is due again at the 04:00 run next day */
+export const INTERVAL_SLACK = 0.5 * 8.64e7;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Ranges and names of the 5 cron fields */
+const CRON_FIELDS: Array<{ name: string, min: number, max: number, names?: string[], namesOffset?: number }> = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+    // 7 is also Sunday
+    { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 },
+];
+
+/** Day groups and words usable in weekday/hour specs, in addition to day names */
+const DAY_GROUPS: Record<string, number[]> = {
+    daily: [0, 1, 2, 3, 4, 5, 6],
+    day: [0, 1, 2, 3, 4, 5, 6],
+    days: [0, 1, 2, 3, 4, 5, 6],
+    weekdays: [1, 2, 3, 4, 5],
+    weekends: [0, 6],
+};
+
+export class ScheduleError extends Error {}
+
+export function intervalSchedule(days: number): Schedule | null {
+    return (isNaN(days) || days <= 0) ? null : { type: 'interval', days };
+}
+
+/**
+ * @param spec - cron expression or weekday/hour spec
+ * @throws {ScheduleError}
+ */
+export function parseSchedule(spec: string): Schedule {
+    const trimmed = spec.trim();
+    // Cron expressions start with the minute field, and have no colon unlike times
+    const fields = /^[\d*][^:]*$/.test(trimmed) ? parseCron(trimmed) : parseWeekdaySpec(trimmed);
+    return { type: 'cron', spec: trimmed, fields };
+}
+
+function parseCron(spec: string): CronFields {
+    const parts = spec.split(/\s+/);
+    if (parts.length !== 5) {
+        throw new ScheduleError(`Cron expression should have 5 fields (minute, hour, day of month, month, day of week), found ${parts.length}`);
+    }
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+    return {
+        minutes, hours, daysOfMonth, months, daysOfWeek,
+        daysOfMonthRestricted: parts[2] !== '*',
+        daysOfWeekRestricted: parts[4] !== '*',
+    };
+}
+
+function parseCronField(part: string, field: typeof CRON_FIELDS[number]): Set<number> {
+    const values = new Set<number>();
+    const parseValue = (value: string) => {
+        const nameIdx = field.names?.indexOf(value.toLowerCase()) ?? -1;
+        const num = nameIdx !== -1 ? nameIdx + field.namesOffset : Number(value);
+        if (!/^\w+$/.test(value) || !Number.isInteger(num) || num < field.min || num > field.max) {
+            throw new ScheduleError(`Invalid ${field.name} "${value}"`);
+        }
+        return num;
+    };
+    for (let item of part.split(',')) {
+        const [range, stepText] = item.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new ScheduleError(`Invalid step "${stepText}" in ${field.name}`);
+        }
+        let start: number, end: number;
+        if (range === '*') {
+            [start, end] = [field.min, field.max];
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            [start, end] = [parseValue(from), parseValue(to)];
+            if (start > end) {
+                throw new ScheduleError(`Invalid ${field.name} range "${range}"`);
+            }
+        } else {
+            start = parseValue(range);
+            // 5/15 means 5, 20, 35, 50
+            end = stepText === undefined ? start : field.max;
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Parse specs like "Mondays 03:00 UTC", "Mon, Thu at 12:30", "daily 05:00" or "weekdays 6:00".
+ * Days default to every day, and time to 00:00.
+ */
+function parseWeekdaySpec(spec: string): CronFields {
+    let text = spec.toLowerCase().replace(/\s+utc$/, '');
+    let hourText: string, minuteText: string;
+    const timeMatch = text.match(/(?:^|\s+)(?:at\s+)?(\d{1,2}):(\d{2})$/);
+    if (timeMatch) {
+        [, hourText, minuteText] = timeMatch;
+        text = text.slice(0, timeMatch.index);
+    }
+    const dayWords = text.replace(/^every\b/, '').split(/\s*,\s*|\s+and\s+|\s+/).filter(e => e);
+    const daysOfWeek = new Set<number>(dayWords.length ? [] : DAY_GROUPS.daily);
+    for (let word of dayWords) {
+        if (DAY_GROUPS[word]) {
+            DAY_GROUPS[word].forEach(day => daysOfWeek.add(day));
+            continue;
+        }
+        // Mondays, Monday, Mon
+        const day = DAY_NAMES.indexOf(word.replace(/s$/, '').replace(/day$/, '').slice(0, 3));
+        if (day === -1 || !/^[a-z]+$/.test(word)) {
+            throw new ScheduleError(`Unrecognized day "${word}"`);
+        }
+        daysOfWeek.add(day);
+    }
+    const hour = hourText === undefined ? 0 : Number(hourText);
+    const minute = minuteText === undefined ? 0 : Number(minuteText);
+    if (hour > 23 || minute > 59) {
+        throw new ScheduleError(`Invalid time "${hourText}:${minuteText}"`);
+    }
+    return {
+        minutes: new Set([minute]),
+        hours: new Set([hour]),
+        daysOfMonth: new Set(),
+        months: new Set(),
+        daysOfWeek,
+        daysOfMonthRestricted: false,
+        daysOfWeekRestricted: true,
+    };
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+    if (fields.months.size && !fields.months.has(date.getUTCMonth() + 1)) {
+        return false;
+    }
+    const domMatch = fields.daysOfMonth.has(date.getUTCDate());
+    const dowMatch = fields.daysOfWeek.has(date.getUTCDay());
+    // As in cron, if both are restricted, either matching is enough
+    if (fields.daysOfMonthRestricted && fields.daysOfWeekRestricted) {
+        return domMatch || dowMatch;
+    }
+    if (fields.daysOfMonthRestricted) {
+        return domMatch;
+    }
+    if (fields.daysOfWeekRestricted) {
+        return dowMatch;
+    }
+    return true;
+}
+
+/** Longest gap between runs of a cron schedule, for "0 0 29 2 *" */
+const MAX_SEARCH_DAYS = 8 * 366;
+
+/**
+ * First time strictly after the given date at which the cron schedule fires.
+ * Returns null if there is none (eg. "0 0 31 2 *").
+ */
+export function getNextOccurrence(fields: CronFields, after: Date): Date | null {
+    const minutes = [...fields.minutes].sort((a, b) => a - b);
+    const hours = [...fields.hours].sort((a, b) => a - b);
+    const day = new Date(Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate()));
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++, day.setUTCDate(day.getUTCDate() + 1)) {
+        if (!matchesDay(fields, day)) {
+            continue;
+        }
+        for (let hour of hours) {
+            for (let minute of minutes) {
+                const time = new Date(day.getTime() + hour * 3600e3 + minute * 60e3);
+                if (time > after) {
+                    return time;
+                }
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * When the report is next due to be updated, or null if never (a cron schedule which never
+ * fires). Reports never updated are due immediately.
+ */
+export function getNextDueDate(schedule: Schedule, lastUpdate: Date | null): Date | null {
+    if (!lastUpdate) {
+        return new Date(0);
+    }
+    if (schedule.type === 'interval') {
+        return new Date(lastUpdate.getTime() + schedule.days * 8.64e7 - INTERVAL_SLACK);
+    }
+    // An update finishing shortly after a scheduled time can have started slightly before it,
+    // in which case it already counts for that time
+    const next = getNextOccurrence(schedule.fields, new Date(lastUpdate.getTime() + DUE_TOLERANCE));
+    return next && new Date(next.getTime() - DUE_TOLERANCE);
+}
+
+export function isUpdateDue(schedule: Schedule, lastUpdate: Date | null, now = new Date()): boolean {
+    const dueDate = getNextDueDate(schedule, lastUpdate);
+    return dueDate !== null && dueDate <= now;
+}
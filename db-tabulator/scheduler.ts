@@ -0,0 +1,146 @@
+import {Query} from "./app";
+import {RunRecord} from "./MetadataStore";
+import {getNextDueDate} from "./schedule";
+import {log} from "../botbase";
+
+/**
+ * Selection and ordering of the due queries for a cron run. The queries are packed into
+ * `concurrency` lanes of `budget` seconds each, based on their past runtimes, so that the run
+ * finishes before the next one starts. Queries which are the most overdue are picked first,
+ * and those that don't fit are deferred to the next run, where they are more overdue and so
+ * get picked earlier.
+ */
+
+export interface PlannedQuery {
+    query: Query;
+    /** Seconds */
+    estimatedRuntime: number;
+    /** Seconds since the query became due, Infinity if it has never run */
+    lateness: number;
+}
+
+/**
+ * time-budget - doesn't fit in what is left of the time budget
+ * over-budget - estimated to take longer than the whole time budget, and no lane was free
+ */
+export type DeferReason = 'time-budget' | 'over-budget';
+
+export interface DeferredQuery extends PlannedQuery {
+    reason: DeferReason;
+    message: string;
+}
+
+export interface RunPlan {
+    queries: Record<string, Query[]>;
+    deferred: DeferredQuery[];
+    /** Estimated runtime of the busiest lane, in seconds */
+    estimatedRuntime: number;
+}
+
+export interface PlanOptions {
+    /** Seconds available to each lane */
+    budget: number;
+    /** Number of lanes, the number of pages processed in parallel */
+    concurrency: number;
+    getRunHistory: (query: Query, limit: number) => Promise<RunRecord[]>;
+    now?: Date;
+}
+
+/** Number of past runs used for the runtime estimate */
+const HISTORY_RUNS = 5;
+
+/** Estimate for queries without history, in seconds */
+const DEFAULT_RUNTIME = 60;
+
+/** Recorded runtimes are of the SQL alone, this accounts for formatting and saving */
+const QUERY_OVERHEAD = 5;
+
+/** Median of the recorded runtimes, so that a one-off slow run doesn't throw it off */
+export function estimateRuntime(history: RunRecord[]): number {
+    const runtimes = history.map(run => Number(run.queryRuntime))
+        .filter(runtime => !isNaN(runtime) && runtime >= 0)
+        .sort((a, b) => a - b);
+    if (!runtimes.length) {
+        return DEFAULT_RUNTIME;
+    }
+    return runtimes[Math.floor(runtimes.length / 2)] + QUERY_OVERHEAD;
+}
+
+export async function planRun(allQueries: Record<string, Query[]>, options: PlanOptions): Promise<RunPlan> {
+    const now = options.now ?? new Date();
+    const candidates: PlannedQuery[] = [];
+    for (let queries of Object.values(allQueries)) {
+        for (let query of queries) {
+            const history = await options.getRunHistory(query, HISTORY_RUNS).catch(err => {
+                log(`[E] Failed to get run history of ${query}: ${err.message}`);
+                return [] as RunRecord[];
+            });
+            const schedule = query.getUpdateSchedule();
+            const dueDate = schedule ? getNextDueDate(schedule, history[0]?.timestamp ?? null) : null;
+            candidates.push({
+                query,
+                estimatedRuntime: estimateRuntime(history),
+                lateness: !history.length ? Infinity : dueDate ? (now.getTime() - dueDate.getTime()) / 1000 : 0,
+            });
+        }
+    }
+    // Most overdue first, then quickest first
+    candidates.sort((a, b) => (b.lateness - a.lateness) || (a.estimatedRuntime - b.estimatedRuntime));
+
+    const lanes: number[] = Array(options.concurrency).fill(0);
+    // Queries on a page are run one after the other, so they share a lane
+    const laneOfPage: Map<string, number> = new Map();
+    const selected: PlannedQuery[] = [];
+    const deferred: DeferredQuery[] = [];
+    for (let candidate of candidates) {
+        const page = candidate.query.page;
+        const lane = laneOfPage.get(page) ?? lanes.indexOf(Math.min(...lanes));
+        const fits = lanes[lane] + candidate.estimatedRuntime <= options.budget;
+        // A query longer than the whole budget gets a lane to itself, else it would never run
+        const runsAlone = lanes[lane] === 0 && candidate.estimatedRuntime > options.budget;
+        if (fits || runsAlone) {
+            lanes[lane] += candidate.estimatedRuntime;
+            laneOfPage.set(page, lane);
+            selected.push(candidate);
+        } else if (candidate.estimatedRuntime > options.budget) {
+            deferred.push({
+                ...candidate,
+                reason: 'over-budget',
+                message: `Estimated runtime of ${candidate.estimatedRuntime.toFixed(0)}s is more than the time budget of ${options.budget}s, and other queries took all lanes`,
+            });
+        } else {
+            deferred.push({
+                ...candidate,
+                reason: 'time-budget',
+                message: `Estimated runtime of ${candidate.estimatedRuntime.toFixed(0)}s doesn't fit in the remaining time budget (${(options.budget - lanes[lane]).toFixed(0)}s left)`,
+            });
+        }
+    }
+
+    // Longest pages first, so that they don't end up running at the end on their own
+    const pageRuntimes: Map<string, number> = new Map();
+    for (let {query, estimatedRuntime} of selected) {
+        pageRuntimes.set(query.page, (pageRuntimes.get(query.page) ?? 0) + estimatedRuntime);
+    }
+    const queries: Record<string, Query[]> = {};
+    for (let [page] of [...pageRuntimes.entries()].sort((a, b) => b[1] - a[1])) {
+        queries[page] = selected.map(e => e.query)
+            .filter(query => query.page === page)
+            .sort((a, b) => a.idx - b.idx);
+    }
+    return {
+        queries,
+        deferred,
+        estimatedRuntime: Math.max(0, ...lanes),
+    };
+}
+
+/** Log the deferred queries, and record them in the run log */
+export async function reportDeferred(plan: RunPlan) {
+    for (let {query, reason, message} of plan.deferred) {
+        log(`[W] Deferred ${query} to the next run: ${message}`);
+        query.errorCode = reason;
+        query.errorMessage = message;
+        await query.recordRun('deferred');
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * Preprocessing of the SQL of a report before it is run: inclusion of shared snippets,
+ * and binding of named parameters (param_<name>=value on the template) as placeholders.
+ */
+
+/** Matches /* include: Snippet name *\/ */
+const INCLUDE_RGX = /\/\*\s*include:\s*([^*]+?)\s*\*\//gi;
+
+/** Maximum depth of snippets including other snippets */
+const MAX_INCLUDE_DEPTH = 5;
+
+export function findSnippetIncludes(sql: string): string[] {
+    return [...new Set([...sql.matchAll(INCLUDE_RGX)].map(match => match[1]))];
+}
+
+/**
+ * Replace snippet includes with the snippet SQL.
+ * @param sql
+ * @param fetchSnippets - gets the SQL of the given snippets, keyed by name. Snippets which don't
+ * exist should be left out.
+ */
+export async function expandSnippets(
+    sql: string,
+    fetchSnippets: (names: string[]) => Promise<Record<string, string>>
+): Promise<string> {
+    for (let depth = 0; depth < MAX_INCLUDE_DEPTH; depth++) {
+        const names = findSnippetIncludes(sql);
+        if (!names.length) {
+            return sql;
+        }
+        const snippets = await fetchSnippets(names);
+        const missing = names.filter(name => snippets[name] === undefined);
+        if (missing.length) {
+            throw new SqlPreprocessError(`SQL snippet${missing.length > 1 ? 's' : ''} not found: ${missing.join(', ')}`);
+        }
+        sql = sql.replace(INCLUDE_RGX, (match, name) => snippets[name]);
+    }
+    throw new SqlPreprocessError(`SQL snippets are nested too deep (more than ${MAX_INCLUDE_DEPTH} levels)`);
+}
+
+/**
+ * Replace named placeholders (:name) with positional ones (?), skipping over string literals,
+ * quoted identifiers and comments.
+ * @returns SQL with positional placeholders, and the values to be bound to them, in order
+ */
+export function bindNamedParams(sql: string, params: Record<string, string>): { sql: string, values: string[] } {
+    const values: string[] = [];
+    let output = '';
+    let i = 0;
+    while (i < sql.length) {
+        const char = sql[i];
+        let end = i + 1;
+        if (char === "'" || char === '"' || char === '`') {
+            // Quoted: skip till the closing quote, accounting for backslash and doubled-quote escapes
+            while (end < sql.length) {
+                if (sql[end] === '\\' && char !== '`') {
+                    end += 2;
+                } else if (sql[end] === char) {
+                    end++;
+                    if (sql[end] !== char) break;
+                    end++;
+                } else {
+                    end++;
+                }
+            }
+        } else if (sql.startsWith('/*', i)) {
+            end = sql.indexOf('*/', i + 2);
+            end = end === -1 ? sql.length : end + 2;
+        } else if (char === '#' || sql.startsWith('-- ', i)) {
+            end = sql.indexOf('\n', i);
+            end = end === -1 ? sql.length : end;
+        } else if (char === ':') {
+            const name = sql.slice(i + 1).match(/^[a-zA-Z_]\w*/)?.[0];
+            // Not a placeholder if part of := assignment or if no such param is defined
+            if (name && Object.prototype.hasOwnProperty.call(params, name)) {
+                values.push(params[name]);
+                output += '?';
+                i += 1 + name.length;
+                continue;
+            }
+        }
+        output += sql.slice(i, end);
+        i = end;
+    }
+    return { sql: output, values };
+}
+
+/**
+ * SQL with comments (other than snippet includes) removed and whitespace collapsed, so that
+ * formatting changes don't change the identity of a report. Comment markers within string
+ * literals are taken as comments too, which is fine for this purpose.
+ */
+export function normalizeSql(sql: string): string {
+    return sql
+        .replace(/\/\*(?!\s*include:)[\s\S]*?\*\//gi, ' ')
+        .replace(/(--\s|#).*$/gm, '')
+        .replace(/\s+/g, ' ')
+        .replace(/[\s;]+$/, '')
+        .trim();
+}
+
+export class SqlPreprocessError extends Error {}
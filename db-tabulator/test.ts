@@ -1,42 +1,837 @@
-import {Query} from "./app";
-import {bot} from "../botbase";
+import {
+	FAILURE_SUSPENSION_THRESHOLD,
+	getQueriesFromText,
+	metadataStore,
+	parseQueryIndices,
+	Query,
+	QUERY_COST_BUDGET,
+	runLog
+} from "./app";
+import {bot, fs, mailTransporter, path} from "../botbase";
+import * as os from "os";
 import assert = require("assert");
 import {NoMetadataStore} from "./NoMetadataStore";
 import {Template} from "../../mwn/build/wikitext";
 import {MwnDate} from "../../mwn";
 import {applyJsPostProcessing} from "./postprocess";
+import {formatters} from "./formatters";
+import {computeRowDigests, computeRowKeys, describeRowChanges, diffRowDigests, isNoopEdit} from "./row-digests";
+import {bindNamedParams, expandSnippets} from "./sql-preprocess";
+import {mergeResultSets} from "./merge";
+import {groupRows, paginateGroups} from "./grouping";
+import {aggregateColumn, evaluateExpression, ExpressionError, parseExpression} from "./calculations";
+import {extractFileDescription} from "./excerpt-sources";
+import {getRequester, JobQueue, MemoryJobStore, RateLimitError} from "./jobs";
+import {estimateCost} from "./cost-estimate";
+import {getNextOccurrence, isUpdateDue as isScheduleDue, parseSchedule, ScheduleError} from "./schedule";
+import {planRun} from "./scheduler";
+import {loadMigrations} from "../migrations";
+import {MIGRATIONS_DIR} from "./MariadbMetadataStore";
+import {findDiscrepancies} from "./metadata-audit";
+import {getTemplateMd5} from "./MetadataStore";
+import {getDatabase, getMonitorDatabase, isValidDatabase} from "./databases";
+import {
+	canLookUpUserIds,
+	fetchUserNames,
+	formatBytes,
+	formatNumber,
+	formatTimestamp,
+	formatUserLink
+} from "./column-types";
+import {SqliteMetadataStore} from "./SqliteMetadataStore";
+import {HybridMetadataStore} from "./HybridMetadataStore";
+import {RunLogEntry} from "./run-log";
 
-describe('db-tabulator', () => {
+/** Query with an empty template, for tests which set its config directly */
+function makeQuery(page = '', idx = 1): Query {
+	return new Query(new Template('{{}}'), page, idx);
+}
+
+/** First report in the wikitext, as on page Commons:Test */
+function parseReport(text: string): Query {
+	const [query] = getQueriesFromText(text, 'Commons:Test');
+	query.parseUpdateSchedule();
+	return query;
+}
+
+/** bot.Title needs namespace data, which would otherwise come from the API */
+function loadNamespaceData() {
+	if (bot.Title.nameIdMap) {
+		return;
+	}
+	bot.Title.processNamespaceData({query: {
+		general: {legaltitlechars: " %!\"$&'()*,\\-.\\/0-9:;=?@A-Z\\\\^_`a-z~\\x80-\\xFF+"},
+		namespaces: {
+			0: {id: 0, name: '', canonical: ''},
+			4: {id: 4, name: 'Commons', canonical: 'Project'},
+			6: {id: 6, name: 'File', canonical: 'File'},
+		},
+		namespacealiases: [],
+	}});
+}
 
-	const noMetadataStore = new NoMetadataStore();
+/** Replace properties of obj, until the returned function is called */
+function stub<T extends object>(obj: T, replacements: Partial<T>): () => void {
+	const originals = Object.fromEntries(Object.keys(replacements).map(key => [key, obj[key]]));
+	Object.assign(obj, replacements);
+	return () => Object.assign(obj, originals);
+}
 
-	const isUpdateDue = (lastUpdate: MwnDate, interval: number) => {
-		const query = new Query(new Template(""), "", 1);
-		query.config.interval = interval;
-		return noMetadataStore.checkIfUpdateDue(lastUpdate, query);
+/**
+ * Run func with an SQLite metadata store in a temporary file. Pages read by the store have the
+ * wikitext given by getText.
+ */
+async function withSqliteStore(getText: () => string, func: (store: SqliteMetadataStore) => Promise<void>) {
+	const file = path.join(os.tmpdir(), `dbreports-test-${process.pid}.db`);
+	process.env.DBTB_SQLITE_FILE = file;
+	const store = new SqliteMetadataStore();
+	// getQueriesToRun() reads the pages to get the queries
+	const restore = stub(bot, { read: (async () => ({ revisions: [{ content: getText() }] })) as typeof bot.read });
+	try {
+		await store.init();
+		await func(store);
+	} finally {
+		restore();
+		delete process.env.DBTB_SQLITE_FILE;
+		await store.db?.close();
+		fs.rmSync(file, { force: true });
 	}
+}
+
+describe('db-tabulator', () => {
+
+	describe('app', () => {
+
+		it('parseQueryIndices', () => {
+			assert.deepStrictEqual(parseQueryIndices('3, 1,3'), [1, 3]);
+			assert.deepStrictEqual(parseQueryIndices(2), [2]);
+			assert.strictEqual(parseQueryIndices('all'), undefined);
+			assert.strictEqual(parseQueryIndices(undefined), undefined);
+		});
+
+		it('identifies queries by id or normalized SQL', () => {
+			const text = `
+				{{Database report|sql=SELECT page_title FROM page -- all pages\n;|wikilinks=1:0}}
+				{{Database report|id=files|sql=SELECT img_name FROM image}}
+				{{Database report|sql=SELECT  page_title\nFROM page}}
+			`;
+			const [first, second, third] = getQueriesFromText(text, 'Commons:Test');
+			assert.strictEqual(second.queryId, 'id:files');
+			// Same SQL up to whitespace and comments
+			assert.strictEqual(third.queryId, first.queryId + '#2');
+			assert.strictEqual(parseReport(`{{Database report|sql=SELECT page_title FROM page}}`).queryId, first.queryId);
+		});
+
+		it('finds new rows with repeated keys', () => {
+			const query = makeQuery();
+			query.config.highlightNew = 2;
+			query.previousRowDigests = computeRowDigests([{n: 1, key: 'a'}, {n: 2, key: 'b'}, {n: 3, key: null}], 2);
+			const result = [{n: 1, key: 'a'}, {n: 2, key: 'a'}, {n: 3, key: 'b'}, {n: 4, key: null}, {n: 5, key: 'c'}];
+			assert.deepStrictEqual([...query.findNewRows(result)], [1, 4]);
+			// Columns missing from the row are not compared
+			assert.deepStrictEqual([...query.findNewRows([{n: 6}])], []);
+			query.config.highlightNew = undefined;
+			assert.deepStrictEqual([...query.findNewRows(result)], []);
+		});
+
+		it('computes the summary row over all pages', async () => {
+			const query = parseReport(`{{Database report|sql=SELECT 1|pagination=2|summary_row=sum:2}}`);
+			query.parseQuery();
+			const rows = [1, 2, 3, 4, 5].map(n => ({name: 'Row ' + n, count: n}));
+			const pages = await query.formatResults(rows) as string[];
+			assert.strictEqual(pages.length, 3);
+			assert.ok(!pages[0].includes('Total') && !pages[1].includes('Total'));
+			assert.ok(/Total[\s\S]*15/.test(pages[2]));
+		});
+
+		it('ignores the trend table when checking for no-op edits', () => {
+			const query = makeQuery();
+			query.config.trend = 3;
+			query.rowCount = 5;
+			query.runHistory = [{timestamp: new Date('2024-05-01T10:00:00Z'), rowCount: 5, queryRuntime: 1, resultHash: null}];
+			const footer = '{{Database report/footer|count=5|last_updated=10:00, 1 May 2024 (UTC)}}';
+			const before = 'rows\n----\n' + footer + query.makeTrendTable();
+			assert.ok(before.includes('|}'));
+			query.runHistory.unshift({timestamp: new Date('2024-05-02T10:00:00Z'), rowCount: 5, queryRuntime: 1, resultHash: null});
+			const after = 'rows\n----\n' + footer + query.makeTrendTable();
+			assert.notStrictEqual(before, after);
+			assert.strictEqual(isNoopEdit(before, after), true);
+			assert.strictEqual(isNoopEdit(before, after.replace('rows', 'other rows')), false);
+			assert.strictEqual(isNoopEdit(before + '\nmore', after + '\nmore'), true);
+			assert.strictEqual(isNoopEdit(before + '\nmore', after + '\nless'), false);
+		});
+
+		it('skips no-op edits only if the metadata store records runs', async () => {
+			loadNamespaceData();
+			const text = `{{Database report|sql=SELECT 1}}\nrows\n{{Database report/footer|last_updated=10:00, 1 May 2024 (UTC)}}\n{{Database report end}}`;
+			const output = 'rows\n{{Database report/footer|last_updated=10:00, 2 May 2024 (UTC)}}';
+			let edits = 0;
+			const restoreEdit = stub(bot.Page.prototype, {
+				edit: (async (transform: (rev: {content: string}) => object | null) => {
+					if (transform({content: text})) {
+						edits++;
+					}
+				}) as typeof bot.Page.prototype.edit,
+			});
+			const store = metadataStore as HybridMetadataStore;
+			try {
+				for (const [activeStore, expectedEdits] of [[new SqliteMetadataStore(), 0], [new NoMetadataStore(), 1]] as const) {
+					const restoreStore = stub(store, {activeStore});
+					try {
+						const query = parseReport(text);
+						await query.save(output);
+						assert.strictEqual(edits, expectedEdits);
+						assert.strictEqual(query.saveSkipped, expectedEdits === 0);
+					} finally {
+						restoreStore();
+					}
+				}
+			} finally {
+				restoreEdit();
+			}
+		});
+
+		it('does not preview queries using postprocess_js', async () => {
+			const preview = await parseReport(`{{Database report|sql=SELECT 1|postprocess_js=return rows}}`).preview();
+			assert.strictEqual(preview.error, 'Previews are not supported for queries using postprocess_js');
+			assert.strictEqual(preview.output, null);
+		});
+
+		it('checks query cost while the report pool is busy', async () => {
+			loadNamespaceData();
+			const database = getDatabase('testwiki'), monitor = getMonitorDatabase('testwiki');
+			assert.notStrictEqual(monitor, database);
+			let interrupt: (err: Error) => void;
+			const monitorQueries: string[] = [];
+			const hang = () => new Promise<never>(() => {});
+			const restoreStubs = [
+				// Every connection of the report pool is taken by other reports
+				stub(database, {
+					getConnection: hang,
+					query: hang,
+					timedQueryWithThreadId: (onStart: (threadId: number) => void) => {
+						onStart(42);
+						return new Promise((resolve, reject) => { interrupt = reject; });
+					},
+				}),
+				stub(monitor, {
+					query: async (sql: string) => {
+						monitorQueries.push(sql);
+						if (sql === 'KILL QUERY 42') {
+							interrupt(Object.assign(new Error('Query execution was interrupted'), {
+								sqlMessage: 'Query execution was interrupted', errno: 1317, code: 'ER_QUERY_INTERRUPTED',
+							}));
+							return [];
+						}
+						return [{id: 1, select_type: 'SIMPLE', table: 'revision', type: 'ALL', key: null, rows: QUERY_COST_BUDGET + 1}];
+					},
+				}),
+				// Nothing is whitelisted
+				stub(bot, { read: (async () => ({ revisions: [{ content: '' }] })) as typeof bot.read }),
+			];
+			try {
+				const preview = await parseReport(`{{Database report|sql=SELECT * FROM revision|db=testwiki}}`).preview();
+				assert.match(preview.error, /^The query is estimated to examine about/);
+				assert.deepStrictEqual(monitorQueries, ['SHOW EXPLAIN FOR 42', 'KILL QUERY 42']);
+			} finally {
+				restoreStubs.forEach(restore => restore());
+			}
+		});
+
+		it('records the outcome of each run', async () => {
+			const entries: RunLogEntry[] = [];
+			const restoreStubs = [
+				stub(runLog, { record: async entry => { entries.push(entry); } }),
+				stub(metadataStore, { updateLastTimestamp: async () => {}, recordFailure: async () => 1 }),
+				// Crashes are emailed
+				stub(mailTransporter, { sendMail: (async () => ({})) as unknown as typeof mailTransporter.sendMail }),
+			];
+			const makeRun = (runQuery: () => Promise<Array<Record<string, string>>>, saveSkipped = false) => {
+				const query = parseReport(`{{Database report|sql=SELECT 1}}`);
+				query.runQuery = async () => {
+					query.queryRuntime = '0.50';
+					return runQuery();
+				};
+				query.compareWithLastRun = async result => { query.rowCount = result.length; };
+				query.formatResults = async () => 'text';
+				query.save = (async () => { query.saveSkipped = saveSkipped; }) as unknown as typeof query.save;
+				return query;
+			};
+			try {
+				await makeRun(async () => [{a: 'x'}, {a: 'y'}]).process();
+				await makeRun(async () => [{a: 'x'}, {a: 'y'}], true).process();
+				const failing = makeRun(() => failing.saveWithError('SQL error', 'sql-error'));
+				await failing.process();
+				await assert.rejects(() => makeRun(async () => { throw new TypeError('oops'); }).process(), TypeError);
+
+				assert.deepStrictEqual(entries.map(e => [e.outcome, e.rowCount, e.errorCode, e.errorMessage]), [
+					['updated', 2, null, null],
+					['unchanged', 2, null, null],
+					['error', null, 'sql-error', 'SQL error'],
+					['crashed', null, 'TypeError', 'oops'],
+				]);
+				assert.ok(entries.every(e => e.page === 'Commons:Test' && e.idx === 1 && e.context === 'manual'));
+				assert.ok(entries.every(e => e.queryRuntime === 0.5 && e.sqlHash === entries[0].sqlHash));
+				assert.match(entries[0].sqlHash, /^[0-9a-f]{32}$/);
+			} finally {
+				restoreStubs.forEach(restore => restore());
+			}
+		});
+
+	});
+
+	describe('NoMetadataStore', () => {
+
+		const noMetadataStore = new NoMetadataStore();
+
+		const isUpdateDue = (lastUpdate: MwnDate, interval: number) => {
+			const query = makeQuery('Commons:Test');
+			query.config.interval = interval;
+			return noMetadataStore.checkIfUpdateDue(lastUpdate, query);
+		}
+
+		it('checkIfUpdateDue', () => {
+			assert.strictEqual(isUpdateDue(new bot.Date().subtract(1, 'day'), 1), true);
+			assert.strictEqual(isUpdateDue(new bot.Date().subtract(2, 'day'), 1), true);
+			assert.strictEqual(isUpdateDue(new bot.Date().subtract(1, 'hour'), 1), false);
+			assert.strictEqual(isUpdateDue(new bot.Date().subtract(11, 'hour'), 1), false);
+			assert.strictEqual(isUpdateDue(new bot.Date().subtract(13, 'hour'), 1), true);
+
+			assert.strictEqual(isUpdateDue(new bot.Date().subtract(30, 'hour'), 2), false);
+			assert.strictEqual(isUpdateDue(new bot.Date().subtract(36, 'hour'), 2), true);
+			assert.strictEqual(isUpdateDue(new bot.Date().subtract(40, 'hour'), 2), true);
+		});
+
+	});
+
+	describe('SqliteMetadataStore', () => {
+
+		it('keeps metadata in SQLite', async () => {
+			const text = `{{Database report|sql=SELECT 1|interval=1}}`;
+			await withSqliteStore(() => text, async store => {
+				const query = parseReport(text);
+				await store.updateMetadata('Commons:Test', [query]);
+				assert.deepStrictEqual(Object.keys(await store.getQueriesToRun()), ['Commons:Test']);
+
+				assert.strictEqual(await store.recordFailure(query, 'SQL Error'), 1);
+				query.rowCount = 3;
+				query.queryRuntime = '1.50';
+				await store.updateLastTimestamp(query);
+				// Updated just now, so not due
+				assert.deepStrictEqual(await store.getQueriesToRun(), {});
+				const history = await store.getRunHistory(query, 5);
+				assert.deepStrictEqual(history.map(run => [run.rowCount, run.queryRuntime]), [[3, 1.5]]);
+			});
+		});
+
+		it('stores row digests only if changed', async () => {
+			const text = `{{Database report|sql=SELECT 1|interval=1}}`;
+			await withSqliteStore(() => text, async store => {
+				const query = parseReport(text);
+				await store.updateMetadata('Commons:Test', [query]);
+				query.rowDigests = computeRowDigests([{page: 'A'}], 1);
+				await store.updateLastTimestamp(query);
+				// Not written if unchanged, so the stored ones stay as they were
+				query.rowDigests = computeRowDigests([{page: 'B'}], 1);
+				query.rowDigestsChanged = false;
+				await store.updateLastTimestamp(query);
+				assert.deepStrictEqual(Object.keys(await store.getRowDigests(query)), ['A']);
+				query.rowDigestsChanged = true;
+				await store.updateLastTimestamp(query);
+				assert.deepStrictEqual(Object.keys(await store.getRowDigests(query)), ['B']);
+				assert.strictEqual((await store.getRunHistory(query, 5)).length, 3);
+			});
+		});
+
+		it('suspends failing queries until the template is edited', async () => {
+			let text = `{{Database report|sql=SELECT 1|interval=1}}`;
+			await withSqliteStore(() => text, async store => {
+				const query = parseReport(text);
+				await store.updateMetadata('Commons:Test', [query]);
+				for (let i = 1; i < FAILURE_SUSPENSION_THRESHOLD; i++) {
+					assert.strictEqual(await store.recordFailure(query, 'SQL Error'), i);
+				}
+				assert.deepStrictEqual(Object.keys(await store.getQueriesToRun()), ['Commons:Test']);
+				assert.strictEqual(await store.recordFailure(query, 'SQL Error'), FAILURE_SUSPENSION_THRESHOLD);
+				assert.deepStrictEqual(await store.getQueriesToRun(), {});
+
+				// Saving the page without changes to the template doesn't lift the suspension
+				await store.updateMetadata('Commons:Test', [parseReport(text)]);
+				assert.deepStrictEqual(await store.getQueriesToRun(), {});
+
+				text = `{{Database report|sql=SELECT 1|interval=1|silent=yes}}`;
+				const editedQuery = parseReport(text);
+				assert.strictEqual(editedQuery.queryId, query.queryId);
+				await store.updateMetadata('Commons:Test', [editedQuery]);
+				assert.deepStrictEqual(Object.keys(await store.getQueriesToRun()), ['Commons:Test']);
+				assert.strictEqual(await store.recordFailure(editedQuery, 'SQL Error'), 1);
+			});
+		});
+
+	});
+
+	describe('HybridMetadataStore', () => {
+
+		it('fails to init if the chosen store is unavailable', async () => {
+			process.env.DBTB_SQLITE_FILE = path.join(os.tmpdir(), 'nonexistent', 'dbreports.db');
+			const store = new HybridMetadataStore('sqlite');
+			delete process.env.DBTB_SQLITE_FILE;
+			await assert.rejects(store.init(), /No metadata store could be initialized/);
+			await store.fallBack();
+			assert.ok(store.activeStore instanceof NoMetadataStore);
+		});
+
+	});
+
+	describe('postprocess', () => {
+
+		it('applyJsPostProcessing', async () => {
+			const result = await applyJsPostProcessing(
+				[{id: '1', name: 'Main Page'}, {id: '2', name: "Talk:Main Page"}],
+				`function postprocess(rows) {
+					rows.forEach(row => {
+						row.id = parseInt(row.id) + 100;
+					})
+					return rows;
+				}`, makeQuery());
+			assert.deepStrictEqual(result, [{id: 101, name: 'Main Page'}, {id: 102, name: 'Talk:Main Page'}]);
+		});
+
+		it('provides helpers to JS postprocessing', async () => {
+			const result = await applyJsPostProcessing(
+				[{text: '{{Information|description={{en|Foo}}|date=2024-01-31}}', timestamp: '20240131235959'}],
+				`function postprocess(rows) {
+					return rows.map(row => {
+						const [info] = bot.parseTemplates(row.text, { namePredicate: name => name === 'Information' });
+						return { date: info.getValue('date'), description: info.getValue('description'),
+							timestamp: bot.formatDate(row.timestamp, 'D MMMM YYYY HH:mm') };
+					});
+				}`, makeQuery());
+			assert.deepStrictEqual(result, [{date: '2024-01-31', description: '{{en|Foo}}', timestamp: '31 January 2024 23:59'}]);
+		});
+
+	});
+
+	describe('formatters', () => {
+
+		it('formats csv and tsv output', () => {
+			const rows = [{title: 'Foo, bar', note: 'say "hi"'}, {title: 'A&B', note: 'tab\there'}];
+			const query = makeQuery();
+			assert.strictEqual(formatters.csv.format(rows, query),
+				'<pre>\ntitle,note\n"Foo, bar","say ""hi"""\nA&amp;B,tab\there\n</pre>\n');
+			assert.strictEqual(formatters.tsv.format(rows, query),
+				'<pre>\ntitle\tnote\nFoo, bar\tsay "hi"\nA&amp;B\ttab here\n</pre>\n');
+			// Cells from postprocess_js needn't be strings
+			const mixedRows: Array<Record<string, any>> = [{id: 1, note: null}];
+			assert.strictEqual(formatters.csv.format(mixedRows, query), '<pre>\nid,note\n1,\n</pre>\n');
+		});
+
+		it('formats gallery output', () => {
+			loadNamespaceData();
+			const query = makeQuery();
+			query.config.galleryColumn = 1;
+			query.config.galleryCaptionColumns = [2, 3];
+			const rows = [
+				{file: 'File:Foo.jpg', caption: '[[Foo|bar]] {{tl|x}} a|b', note: 'line 1\r\nline 2'},
+				{file: 'Bar.png', caption: '', note: 'only note'},
+				{file: '', caption: 'invalid', note: ''},
+			];
+			assert.strictEqual(formatters.gallery.format(rows, query),
+				'<gallery>\n' +
+				'File:Foo.jpg|[[Foo|bar]] {{tl|x}} a&#124;b<br>line 1 line 2\n' +
+				'File:Bar.png|only note\n' +
+				'</gallery>\n');
+		});
+
+	});
+
+	describe('column-types', () => {
+
+		it('formats cells as per column types', () => {
+			assert.strictEqual(formatTimestamp('20240131235959'),
+				'<span data-sort-value="20240131235959">23:59, 31 January 2024</span>');
+			assert.strictEqual(formatTimestamp('2024-01-31T23:59:59Z'),
+				'<span data-sort-value="20240131235959">23:59, 31 January 2024</span>');
+			assert.strictEqual(formatTimestamp(''), '');
+			const warnings = [];
+			const restoreWarn = stub(console, { warn: (...args: any[]) => { warnings.push(args); } });
+			try {
+				for (let value of ['1700000000', '12', 'yesterday', '2024-13-45']) {
+					assert.strictEqual(formatTimestamp(value), value);
+				}
+			} finally {
+				restoreWarn();
+			}
+			assert.deepStrictEqual(warnings, []);
+
+			assert.strictEqual(formatBytes('512'), '<span data-sort-value="512">512 bytes</span>');
+			assert.strictEqual(formatBytes('1536'), '<span data-sort-value="1536">1.5 KB</span>');
+			assert.strictEqual(formatBytes('3221225472'), '<span data-sort-value="3221225472">3.0 GB</span>');
+			assert.strictEqual(formatBytes('abc'), 'abc');
+
+			assert.strictEqual(formatNumber('1234567'), '<span data-sort-value="1234567">1,234,567</span>');
+			assert.strictEqual(formatNumber('-1234.5'), '<span data-sort-value="-1234.5">-1,234.5</span>');
+			assert.strictEqual(formatNumber(''), '');
+
+			assert.strictEqual(formatUserLink('Example_user'), '[[User:Example user|Example user]]');
+			assert.strictEqual(formatUserLink('192.0.2.1'), '[[Special:Contributions/192.0.2.1|192.0.2.1]]');
+			assert.strictEqual(formatUserLink('2001:db8::1'), '[[Special:Contributions/2001:db8::1|2001:db8::1]]');
+		});
+
+		it('looks up user IDs in the database of the report', async () => {
+			const database = getDatabase('testwiki');
+			const lookups = [];
+			const restore = stub(database, {
+				query: async (sql: string, [ids]: string[][]) => {
+					lookups.push(ids);
+					return ids.filter(id => id !== '3').map(id => ({ user_id: Number(id), user_name: 'User ' + id }));
+				},
+			});
+			try {
+				assert.deepStrictEqual(await fetchUserNames(database, ['1', '2', '1', 'x', '3', null]),
+					{ 1: 'User 1', 2: 'User 2' });
+				assert.deepStrictEqual(lookups, [['1', '2', '3']]);
+			} finally {
+				restore();
+			}
+			assert.ok(canLookUpUserIds(database));
+			assert.ok(!canLookUpUserIds(getDatabase('toolsdb:s12345__mytool_p')));
+		});
+
+	});
+
+	describe('row-digests', () => {
+
+		it('row changes since last run', () => {
+			const previous = computeRowDigests([{a: 'x', b: 1}, {a: 'y', b: 2}, {a: 'z', b: 3}]);
+			const current = computeRowDigests([{a: 'x', b: 1}, {a: 'y', b: 5}, {a: 'p', b: 3}, {a: 'q', b: null}]);
+			const changes = diffRowDigests(previous, current);
+			assert.deepStrictEqual(changes, {added: ['p', 'q'], removed: ['z'], changed: ['y']});
+			assert.strictEqual(describeRowChanges(changes), '+2 rows, −1 row, 1 changed');
+			assert.strictEqual(describeRowChanges(diffRowDigests(current, current)), '');
+		});
+
+		it('keys rows with repeated values', () => {
+			const rows = [{n: 1, key: 'a'}, {n: 2, key: 'a'}, {n: 3, key: 'b'}, {n: 4, key: null}, {n: 5, key: 'c'}];
+			assert.deepStrictEqual(computeRowKeys(rows, 2), ['a', 'a#2', 'b', '', 'c']);
+		});
 
-	it('checkIfUpdateDue', () => {
-		assert.strictEqual(isUpdateDue(new bot.Date().subtract(1, 'day'), 1), true);
-		assert.strictEqual(isUpdateDue(new bot.Date().subtract(2, 'day'), 1), true);
-		assert.strictEqual(isUpdateDue(new bot.Date().subtract(1, 'hour'), 1), false);
-		assert.strictEqual(isUpdateDue(new bot.Date().subtract(11, 'hour'), 1), false);
-		assert.strictEqual(isUpdateDue(new bot.Date().subtract(13, 'hour'), 1), true);
-
-		assert.strictEqual(isUpdateDue(new bot.Date().subtract(30, 'hour'), 2), false);
-		assert.strictEqual(isUpdateDue(new bot.Date().subtract(36, 'hour'), 2), true);
-		assert.strictEqual(isUpdateDue(new bot.Date().subtract(40, 'hour'), 2), true);
-	});
-
-	it('applyJsPostProcessing', async () => {
-		console.log(await applyJsPostProcessing(
-			[{id: '1', name: 'Main Page'}, {id: '2', name: "Talk:Main Page"}],
-			`function postprocess(rows) {
-				rows.forEach(row => {
-					row.id = parseInt(row.id) + 100;
-				})
-				return rows;    
-			}`, new Query(new Template('{{}}'), '', 1)));
-	})
+		it('skips edits changing only the footer timestamps', () => {
+			assert.strictEqual(isNoopEdit(
+				'{{Database report/footer|count=2|query_runtime=1.05|last_updated=10:00, 1 May 2024 (UTC)}}',
+				'{{Database report/footer|count=2|query_runtime=0.93|last_updated=14:00, 1 May 2024 (UTC)}}'
+			), true);
+			assert.strictEqual(isNoopEdit(
+				'{{Database report/footer|count=2|query_runtime=1.05|last_updated=10:00, 1 May 2024 (UTC)}}',
+				'{{Database report/footer|count=3|query_runtime=1.05|last_updated=10:00, 1 May 2024 (UTC)}}'
+			), false);
+			assert.strictEqual(isNoopEdit(
+				'{{Database report/footer|count=2|query_runtime=1.05|estimated_rows=1200|last_updated=10:00, 1 May 2024 (UTC)}}',
+				'{{Database report/footer|count=2|query_runtime=1.05|estimated_rows=1350|last_updated=14:00, 1 May 2024 (UTC)}}'
+			), true);
+		});
+
+	});
+
+	describe('sql-preprocess', () => {
+
+		it('binds named parameters and expands snippets', async () => {
+			assert.deepStrictEqual(
+				bindNamedParams(`SELECT ':cat' FROM page WHERE a = :cat AND b = :ns -- :cat\nAND @v := :unknown`, {cat: 'Foo', ns: '6'}),
+				{ sql: `SELECT ':cat' FROM page WHERE a = ? AND b = ? -- :cat\nAND @v := :unknown`, values: ['Foo', '6'] }
+			);
+			assert.strictEqual(
+				await expandSnippets('SELECT /* include: A */ FROM t', async () => ({A: 'x, /* include:B */', B: 'y'})),
+				'SELECT x, y FROM t'
+			);
+			await assert.rejects(expandSnippets('SELECT /* include: A */', async () => ({})));
+		});
+
+	});
+
+	describe('merge', () => {
+
+		it('merges result sets on join key', () => {
+			const files = [{file: 'A.jpg', size: 10}, {file: 'B.jpg', size: 20}];
+			const usage = [{file: 'A.jpg', size: 2, wiki: 'enwiki'}, {file: 'A.jpg', size: 3, wiki: 'dewiki'}];
+			assert.deepStrictEqual(mergeResultSets([files, usage], 'file'), [
+				{file: 'A.jpg', size: 10, size_2: 2, wiki: 'enwiki'},
+				{file: 'A.jpg', size: 10, size_2: 3, wiki: 'dewiki'},
+				{file: 'B.jpg', size: 20, size_2: null, wiki: null},
+			]);
+			assert.strictEqual(mergeResultSets([files, usage], 'file', 'inner').length, 2);
+			assert.throws(() => mergeResultSets([files, usage], 'title'));
+		});
+
+		it('does not match null join keys', () => {
+			const pages = [{title: 'A', id: 1}, {title: null, id: 2}];
+			const links = [{title: null, target: 'X'}, {title: 'null', target: 'Y'}, {title: 'A', target: 'Z'}];
+			assert.deepStrictEqual(mergeResultSets([pages, links], 'title'), [
+				{title: 'A', id: 1, target: 'Z'},
+				{title: null, id: 2, target: null},
+			]);
+			assert.deepStrictEqual(mergeResultSets([pages, links], 'title', 'inner').map(row => row.id), [1]);
+		});
+
+		it('limits the rows after the join', async () => {
+			const query = parseReport(`{{Database report|sql1=SELECT 1|sql2=SELECT 2|pagination=2|max_pages=1|join_type=inner}}`);
+			query.parseQuery();
+			const applyLimits: boolean[] = [];
+			query.runSql = async (sql, dbName, applyLimit) => {
+				applyLimits.push(applyLimit);
+				return [0, sql === 'SELECT 1' ?
+					[{key: 'a'}, {key: 'b'}, {key: 'c'}, {key: 'd'}] :
+					[{key: 'b', n: 1}, {key: 'c', n: 2}, {key: 'c', n: 3}, {key: 'd', n: 4}]];
+			};
+			assert.deepStrictEqual(await query.runQuery(), [{key: 'b', n: 1}, {key: 'c', n: 2}]);
+			assert.deepStrictEqual(applyLimits, [false, false]);
+		});
+
+	});
+
+	describe('grouping', () => {
+
+		it('groups rows and paginates by group', () => {
+			const rows = [{ns: '0', title: 'A'}, {ns: '2', title: 'B'}, {ns: '0', title: 'C'}, {ns: '4', title: 'D'}];
+			const groups = groupRows(rows, row => row.ns);
+			assert.deepStrictEqual(groups.map(g => g.label), ['0', '2', '4']);
+			assert.deepStrictEqual(groups[0].rows.map(row => row.title), ['A', 'C']);
+			assert.deepStrictEqual(groupRows(rows, row => row.ns, 'count').map(g => g.rows.length), [2, 1, 1]);
+			assert.deepStrictEqual(groupRows(rows, row => row.ns, 'desc').map(g => g.label), ['4', '2', '0']);
+			// A group is never split across pages
+			assert.deepStrictEqual(paginateGroups(groups, 2).map(page => page.map(row => row.title)),
+				[['A', 'C'], ['B', 'D']]);
+			assert.deepStrictEqual(paginateGroups(groups, 1).map(page => page.length), [2, 1, 1]);
+		});
+
+	});
+
+	describe('calculations', () => {
+
+		it('computed columns and summary rows', () => {
+			const evaluate = (expr: string, cells: string[]) => evaluateExpression(parseExpression(expr), cells);
+			assert.strictEqual(evaluate('$1 / $2 * 100', ['10', '4']), '250');
+			assert.strictEqual(evaluate('round($1 / 3, 2) - -1', ['10']), '4.33');
+			assert.strictEqual(evaluate('max($1, $2) % 7', ['10', '4']), '3');
+			assert.strictEqual(evaluate('$1 / $2', ['10', '0']), '');
+			assert.strictEqual(evaluate('$1 + 1', ['']), '');
+			assert.throws(() => parseExpression('$1 + '));
+			assert.throws(() => parseExpression('process.exit()'));
+			for (let name of ['constructor', 'toString', '__proto__']) {
+				assert.throws(() => parseExpression(`${name}(1)`), ExpressionError);
+			}
+			assert.strictEqual(evaluateExpression(parseExpression('$1 * 2 + $2'), [21, null]), '');
+			assert.strictEqual(evaluateExpression(parseExpression('$1 * 2'), [21, null]), '42');
+
+			const rows = [{page: 'A', size: '1'}, {page: 'B', size: '2.5'}, {page: 'C', size: ''}];
+			assert.strictEqual(aggregateColumn(rows, 2, 'sum'), '3.5');
+			assert.strictEqual(aggregateColumn(rows, 2, 'avg'), '1.75');
+			assert.strictEqual(aggregateColumn(rows, 2, 'max'), '2.5');
+			assert.strictEqual(aggregateColumn(rows, 2, 'count'), '2');
+		});
+
+	});
+
+	describe('excerpt-sources', () => {
+
+		it('extracts file descriptions', () => {
+			const text = `== {{int:filedesc}} ==
+{{Information
+|description={{en|1=A [[bridge]] at night}}{{de|1=Eine Brücke bei Nacht}}
+|date=2020-01-01
+}}`;
+			assert.strictEqual(extractFileDescription(text, 'de'), 'Eine Brücke bei Nacht');
+			assert.strictEqual(extractFileDescription(text, 'fr'), 'A [[bridge]] at night');
+			assert.strictEqual(extractFileDescription('{{Information|description=Plain text}}', 'en'), 'Plain text');
+			assert.strictEqual(extractFileDescription('No template', 'en'), '');
+		});
+
+	});
+
+	describe('cost-estimate', () => {
+
+		it('estimates query cost from EXPLAIN output', () => {
+			const estimate = estimateCost([
+				{id: 1, select_type: 'PRIMARY', table: 'page', type: 'ref', key: 'page_name_title', rows: 1000},
+				{id: 1, select_type: 'PRIMARY', table: 'revision', type: 'ALL', key: null, rows: 200},
+				{id: 2, select_type: 'DEPENDENT SUBQUERY', table: 'categorylinks', type: 'ref', key: 'PRIMARY', rows: 5},
+				{id: null, select_type: 'UNION RESULT', table: '<union1,2>', type: 'ALL', key: null, rows: null},
+			]);
+			assert.strictEqual(estimate.rows, 1000 * 200 + 5);
+			// Full scans are considered worse even if fewer rows are read
+			assert.strictEqual(estimate.worstTable.table, 'revision');
+		});
+
+	});
+
+	describe('databases', () => {
+
+		it('rejects the bot\'s own databases', () => {
+			assert(isValidDatabase('enwiki'));
+			assert(isValidDatabase('toolsdb:s12345__mytool_p'));
+			assert(!isValidDatabase('toolsdb:s54277__dbreports_p'));
+			assert(!isValidDatabase('toolsdb:enwiki'));
+		});
+
+	});
+
+	describe('jobs', () => {
+
+		it('job queue retries jobs and lets clients attach', async () => {
+			let attempts = 0;
+			const queue = new JobQueue(new MemoryJobStore(), async (job, notify) => {
+				notify('started');
+				if (++attempts === 1) {
+					throw new Error('Lost connection');
+				}
+			}, { concurrency: 1, maxAttempts: 2, rateLimit: 2, rateLimitWindow: 60 });
+
+			const {job} = await queue.submit('Page', 1, '127.0.0.1');
+			const attached = await queue.submit('Page', 1, '127.0.0.2');
+			assert.strictEqual(attached.existing, true);
+			assert.strictEqual(attached.job.id, job.id);
+
+			const codes = await new Promise<string[]>(resolve => {
+				const seen = [];
+				queue.follow(job.id, event => {
+					seen.push(event.code);
+					if (event.code === 'completed') resolve(seen);
+				});
+			});
+			assert.deepStrictEqual(codes, ['job-queued', 'started', 'job-retrying', 'started', 'completed']);
+
+			await queue.submit('Page', 2, '127.0.0.1');
+			await assert.rejects(() => queue.submit('Page', 3, '127.0.0.1'), RateLimitError);
+		});
+
+		it('counts previews towards the rate limit', async () => {
+			const queue = new JobQueue(new MemoryJobStore(), async () => {},
+				{ concurrency: 1, maxAttempts: 1, rateLimit: 1, rateLimitWindow: 60 });
+			await queue.checkRateLimit('127.0.0.1');
+			await assert.rejects(() => queue.checkRateLimit('127.0.0.1'), RateLimitError);
+			await assert.rejects(() => queue.submit('Page', 1, '127.0.0.1'), RateLimitError);
+		});
+
+		it('reads events from the given sequence number', async () => {
+			const store = new MemoryJobStore();
+			for (let code of ['job-queued', 'started', 'completed']) {
+				await store.addEvent('job', { seq: (await store.getEvents('job')).length, code });
+			}
+			assert.deepStrictEqual((await store.getEvents('job', 1)).map(event => event.code), ['started', 'completed']);
+			assert.deepStrictEqual(await store.getEvents('job', 3), []);
+		});
+
+		it('identifies requesters by the address added by the proxy', () => {
+			assert.strictEqual(getRequester({ headers: { 'x-forwarded-for': '203.0.113.7' }, ip: '10.0.0.1' }), '203.0.113.7');
+			// Entries before the last one can be made up by the client
+			assert.strictEqual(getRequester({ headers: { 'x-forwarded-for': '1.2.3.4, 203.0.113.7' } }), '203.0.113.7');
+			assert.strictEqual(getRequester({ headers: { 'x-forwarded-for': ['1.2.3.4', '203.0.113.7'] } }), '203.0.113.7');
+			assert.strictEqual(getRequester({ headers: {}, ip: '10.0.0.1' }), '10.0.0.1');
+		});
+
+	});
+
+	describe('schedule', () => {
+
+		it('computes due dates of schedules', () => {
+			const next = (spec: string, after: string) => {
+				const schedule = parseSchedule(spec);
+				return schedule.type === 'cron' && getNextOccurrence(schedule.fields, new Date(after))?.toISOString();
+			};
+			assert.strictEqual(next('Mondays 03:00 UTC', '2024-05-15T10:00:00Z'), '2024-05-20T03:00:00.000Z');
+			assert.strictEqual(next('0 3 * * 1', '2024-05-20T03:00:00Z'), '2024-05-27T03:00:00.000Z');
+			assert.strictEqual(next('*/15 * * * *', '2024-05-20T03:07:00Z'), '2024-05-20T03:15:00.000Z');
+			assert.strictEqual(next('0 0 29 feb *', '2024-03-01T00:00:00Z'), '2028-02-29T00:00:00.000Z');
+			assert.strictEqual(next('Mon, Thu and Sat at 12:30', '2024-05-28T06:00:00Z'), '2024-05-30T12:30:00.000Z');
+			assert.throws(() => parseSchedule('0 3 * *'), ScheduleError);
+			assert.throws(() => parseSchedule('Funday 03:00'), ScheduleError);
+
+			// Updates finishing a few minutes after the scheduled time count for it
+			const schedule = parseSchedule('Mondays 03:00');
+			assert.strictEqual(isScheduleDue(schedule, new Date('2024-05-20T03:05:00Z'), new Date('2024-05-20T07:25:00Z')), false);
+			assert.strictEqual(isScheduleDue(schedule, new Date('2024-05-20T02:58:00Z'), new Date('2024-05-20T07:25:00Z')), false);
+			assert.strictEqual(isScheduleDue(schedule, new Date('2024-05-13T03:30:00Z'), new Date('2024-05-20T02:55:00Z')), true);
+			assert.strictEqual(isScheduleDue(schedule, null, new Date('2024-05-20T02:00:00Z')), true);
+		});
+
+	});
+
+	describe('scheduler', () => {
+
+		it('plans runs within the time budget', async () => {
+			const now = new Date('2024-05-20T12:00:00Z');
+			const makeEntry = (page: string, idx: number, runtime: number, hoursSinceRun: number) => {
+				const query = makeQuery(page, idx);
+				query.config.interval = 1;
+				const timestamp = new Date(now.getTime() - hoursSinceRun * 3600e3);
+				return { query, history: [{ timestamp, rowCount: 10, queryRuntime: runtime, resultHash: '' }] };
+			};
+			const entries = [
+				makeEntry('A', 1, 2000, 30),
+				makeEntry('A', 2, 500, 30),
+				makeEntry('B', 1, 3000, 25),
+				makeEntry('C', 1, 1000, 48),
+				makeEntry('D', 1, 9000, 26),
+			];
+			const plan = await planRun({
+				A: entries.slice(0, 2).map(e => e.query),
+				B: [entries[2].query],
+				C: [entries[3].query],
+				D: [entries[4].query],
+			}, {
+				budget: 3600,
+				concurrency: 3,
+				getRunHistory: async query => entries.find(e => e.query === query).history,
+				now,
+			});
+			// D is over the budget but gets a lane to itself. B, the least overdue, doesn't fit.
+			assert.deepStrictEqual(Object.keys(plan.queries), ['D', 'A', 'C']);
+			assert.deepStrictEqual(plan.queries.A.map(q => q.idx), [1, 2]);
+			assert.deepStrictEqual(plan.deferred.map(e => [e.query.toString(), e.reason]), [['B', 'time-budget']]);
+		});
+
+	});
+
+	describe('migrations', () => {
+
+		it('loads migrations in order', () => {
+			const migrations = loadMigrations(MIGRATIONS_DIR);
+			assert.deepStrictEqual(migrations.map(m => m.version), migrations.map((m, i) => i + 1));
+			assert(migrations.every(m => m.statements.length && m.statements.every(statement => !statement.endsWith(';'))));
+		});
+
+	});
+
+	describe('metadata-audit', () => {
+
+		it('finds discrepancies in stored metadata', () => {
+			const [first, second] = getQueriesFromText(`
+				{{Database report|sql=SELECT 1}}
+				{{Database report|id=two|sql=SELECT 2}}
+			`, 'Commons:A');
+			const discrepancies = findDiscrepancies({
+				categoryMembers: new Set(['Commons:A', 'Commons:B', 'Commons:C']),
+				transclusions: new Set(['Commons:A', 'Commons:D']),
+				rows: [
+					{ page: 'Commons:A', queryId: first.queryId, idx: 1, templateMd5: getTemplateMd5(first) },
+					{ page: 'Commons:A', queryId: second.queryId, idx: 3, templateMd5: getTemplateMd5(second) },
+					{ page: 'Commons:A', queryId: 'id:removed', idx: 2, templateMd5: null },
+					{ page: 'Commons:B', queryId: 'dummy', idx: -1, templateMd5: null },
+					{ page: 'Commons:E', queryId: 'id:x', idx: 1, templateMd5: null },
+				],
+				currentQueries: { 'Commons:A': [first, second], 'Commons:B': [first] },
+			});
+			assert.deepStrictEqual(discrepancies.map(d => [d.type, d.page]), [
+				['not-in-category', 'Commons:E'],
+				['untracked', 'Commons:C'],
+				['not-categorized', 'Commons:D'],
+				['stale', 'Commons:A'],
+				['dummy-row', 'Commons:B'],
+				['stale', 'Commons:B'],
+			]);
+			assert.strictEqual(discrepancies[3].details, 'id:two stored as #3, now #2; id:removed (#2) no longer on page');
+		});
+
+	});
 
 });
@@ -3,29 +3,46 @@ import 'express-async-errors';
 import {
 	checkShutoff,
 	fetchQueriesForPage,
+	getQueriesFromText,
 	metadataStore,
+	parseQueryIndices,
+	Query,
 	SHUTOFF_PAGE,
 	SUBSCRIPTIONS_CATEGORY,
 	processQueries,
-	BOT_NAME
+	runLog,
+	BOT_NAME,
+	TEMPLATE
 } from "./app";
 import {createLogStream, mapPath} from "../utils";
 import {bot} from "../botbase";
 import {EventEmitter} from "events";
 import {CommonswikiWebDb} from "../db";
 import {redis} from "../redis-io";
+import {FINAL_EVENT_CODES, getRequester, Job, JobQueue, MemoryJobStore, RateLimitError, RedisJobStore} from "./jobs";
+import {RUN_CONTEXTS, RUN_OUTCOMES} from "./run-log";
+import {HybridMetadataStore} from "./HybridMetadataStore";
 
 const router = express.Router();
 
 const log = createLogStream(mapPath('~/web-dbtb.out'));
 
-/** Store the list of pages currently undergoing update as a redis set */
+/** Store the list of pages currently being previewed as a redis set */
 const redisKey = 'web-db-tabulator-pages';
 
 const db = new CommonswikiWebDb();
 
+// Only once, as init() creates a connection pool and applies pending migrations. If the store
+// is unavailable, reports are still updated, without metadata.
+const metadataStoreReady = metadataStore.init().catch(async err => {
+	log(`[E] ${err.message}, continuing without metadata`);
+	if (metadataStore instanceof HybridMetadataStore) {
+		await metadataStore.fallBack();
+	}
+});
+
 router.get('/stream', async (req, res) => {
-	const {page} = req.query as Record<string, string>;
+	const {page, idx} = req.query as Record<string, string>;
 
 	res.writeHead(200, {
 		"Connection": "keep-alive",
@@ -33,8 +50,10 @@ router.get('/stream', async (req, res) => {
 		"Content-Type": "text/event-stream",
 	});
 
+	let stopFollowing: () => void;
 	res.on('close', () => {
 		log(`[W] Client closed the connection`);
+		stopFollowing?.();
 		res.end();
 	});
 
@@ -45,14 +64,12 @@ router.get('/stream', async (req, res) => {
 		stream('end');
 	}
 
-	let [shutoffText, queries, revId] = await Promise.all([
+	let [shutoffText, revId] = await Promise.all([
 		checkShutoff(),
-		fetchQueriesForPage(page),
 		getLastNonBotRevId(page).catch(err => {
 			stream('failed-get-last-revid', { code: err.code, message: err.message });
 			endStream();
 		}),
-		metadataStore.init(),
 	]);
 
 	if (!revId) return;
@@ -64,17 +81,51 @@ router.get('/stream', async (req, res) => {
 		stream('shutoff-checked');
 	}
 
-	const pgKey = page + ':' + revId;
-	if (await redis.sismember(redisKey, pgKey).catch(handleRedisError)) {
-		stream('already-in-progress', { page, revId });
-		return endStream();
+	let job: Job, existing: boolean;
+	try {
+		({job, existing} = await jobQueue.submit(page, revId, getRequester(req), parseQueryIndices(idx)));
+	} catch (err) {
+		if (err instanceof RateLimitError) {
+			stream('rate-limited', { message: err.message });
+			return endStream();
+		}
+		throw err;
+	}
+	if (existing) {
+		// Another client (or an earlier connection of this one) triggered the update
+		stream('attached', { jobId: job.id, status: job.status, revId });
+	}
+
+	stopFollowing = await jobQueue.follow(job.id, event => {
+		const {code, seq, ...args} = event;
+		stream(code, args);
+		if (FINAL_EVENT_CODES.includes(code)) {
+			endStream();
+		}
+	});
+});
+
+/**
+ * Update the reports on the page (only the ones with the given indices if specified),
+ * or the reports transcluded on it.
+ */
+async function runUpdateJob(job: Job, notify: (code: string, args?: Record<string, any>) => void) {
+	const page = job.page;
+	let [queries] = await Promise.all([
+		fetchQueriesForPage(page, job.indices),
+		metadataStoreReady,
+	]);
+
+	// Indices refer to reports on the page itself, so don't go on to transcluded reports
+	if (queries.length === 0 && job.indices) {
+		notify('invalid-idx', { indices: job.indices });
+		return;
 	}
-	redis.sadd(redisKey, pgKey).catch(handleRedisError);
 
 	// If no queries found, link clicked was probably from a transcluded report.
 	// Check if any transclusion(s) are in SUBSCRIPTION_CATEGORY and update them.
 	if (queries.length === 0) {
-		stream('looking-up-transclusions');
+		notify('looking-up-transclusions');
 		const title = bot.Title.newFromText(page);
 		try {
 			const transcludedReportPages = await db.query(`
@@ -98,35 +149,160 @@ router.get('/stream', async (req, res) => {
 	}
 
 	if (queries.length) {
-		stream('started', { numQueries: queries.length });
+		notify('started', { numQueries: queries.length });
 	} else {
-		stream('no-queries');
-		redis.srem(redisKey, pgKey).catch(handleRedisError);
-		return endStream();
+		notify('no-queries');
+		return;
 	}
 
 	let handleMessage = (...args) => {
-		stream(args[0], { args: args.slice(1) })
+		notify(args[0], { args: args.slice(1) });
 	};
 
 	const notifier = new EventEmitter();
 	notifier.on('message', handleMessage); // If custom JS is enabled
 	queries.forEach(q => q.on('message', handleMessage)); // If custom JS is not enabled
 
-	log(`Started processing ${page}`);
+	// Transcluded reports are keyed by their own pages, as the child process for JS
+	// postprocessing reads queries from the page
+	const queriesByPage: Record<string, Query[]> = {};
+	for (let query of queries) {
+		queriesByPage[query.page] = (queriesByPage[query.page] || []).concat(query);
+	}
+
+	log(`Started processing ${page} (job ${job.id}, attempt ${job.attempts})`);
+	await processQueries(queriesByPage, notifier);
+	log(`Finished processing ${page}`);
+}
+
+const jobQueue = new JobQueue(
+	process.env.DBTB_JOB_STORE === 'memory' ? new MemoryJobStore() : new RedisJobStore(redis),
+	runUpdateJob,
+	{
+		concurrency: 3,
+		maxAttempts: 2,
+		rateLimit: 10,
+		rateLimitWindow: 600,
+	}
+);
+jobQueue.recover().catch(err => {
+	log(`[E] Failed to recover jobs`);
+	log(err);
+});
+
+/**
+ * Dry run of the queries on a page, or of the posted template wikitext, without saving anything.
+ * Responds with the output wikitext, the HTML of its first page, warnings and runtime of each query.
+ */
+router.get('/preview', async (req, res) => {
+	const {page, idx} = req.query as Record<string, string>;
+	if (!page) {
+		return res.status(400).json({ error: 'Missing page parameter' });
+	}
+	await respondWithPreview(req, res, page, await fetchQueriesForPage(page, parseQueryIndices(idx)));
+});
+
+router.post('/preview', async (req, res) => {
+	const {wikitext, page} = req.body as Record<string, string>;
+	if (!wikitext) {
+		return res.status(400).json({ error: 'Missing wikitext parameter' });
+	}
+	if (!page) {
+		return res.status(400).json({ error: 'Missing page parameter' });
+	}
+	const title = bot.Title.newFromText(page);
+	if (!title) {
+		return res.status(400).json({ error: `Invalid page name: ${page}` });
+	}
+	// Posted SQL is only run for changes to saved reports, not for anonymous one-off queries
+	if ((await fetchQueriesForPage(title.toText())).length === 0) {
+		return res.status(403).json({ error: `Previews of wikitext need a saved page with {{${TEMPLATE}}}, ${title.toText()} has none` });
+	}
+	await respondWithPreview(req, res, title.toText(), getQueriesFromText(wikitext, title.toText()));
+});
+
+async function respondWithPreview(req: express.Request, res: express.Response, page: string, queries: Query[]) {
+	if (await checkShutoff()) {
+		return res.status(503).json({ error: `Database reports are shut off via ${SHUTOFF_PAGE}` });
+	}
+	if (queries.length === 0) {
+		return res.status(404).json({ error: `No {{${TEMPLATE}}} found` });
+	}
+	// Previews run arbitrary SQL, so they count towards the same limit as updates. The check
+	// below is only per page, which callers can vary.
 	try {
-		await processQueries({[page]: queries}, notifier);
+		await jobQueue.checkRateLimit(getRequester(req));
+	} catch (err) {
+		if (err instanceof RateLimitError) {
+			return res.status(429).json({ error: err.message });
+		}
+		throw err;
+	}
+	const previewKey = 'preview:' + page;
+	if (await redis.sismember(redisKey, previewKey).catch(handleRedisError)) {
+		return res.status(429).json({ error: `A preview of ${page} is already in progress` });
+	}
+	redis.sadd(redisKey, previewKey).catch(handleRedisError);
+
+	log(`Started preview of ${page}`);
+	const previews = [];
+	try {
+		await metadataStoreReady;
+		for (let query of queries) {
+			const preview = await query.preview();
+			const firstPage = Array.isArray(preview.output) ? preview.output[0] : preview.output;
+			let html = null;
+			if (firstPage && !query.hasRawOutput()) {
+				html = await bot.parseWikitext(firstPage, {
+					title: page,
+					disablelimitreport: true,
+					disableeditsection: true,
+				});
+			}
+			previews.push({ ...preview, html });
+		}
 	} finally {
-		redis.srem(redisKey, pgKey).catch(handleRedisError);
+		redis.srem(redisKey, previewKey).catch(handleRedisError);
 	}
-	log(`Finished processing ${page}`);
-	stream('completed');
-	return endStream();
+	log(`Finished preview of ${page}`);
+	res.status(200).json({ page, queries: previews });
+}
+
+/** Maximum number of run log entries shown at once */
+const HISTORY_MAX_LIMIT = 500;
+
+/**
+ * Past runs from the run log, filterable by page, context and outcome.
+ * Responds with JSON if format=json.
+ */
+router.get('/history', async (req, res) => {
+	const {page, context, outcome, format} = req.query as Record<string, string>;
+	const limit = Math.min(parseInt(req.query.limit as string) || 100, HISTORY_MAX_LIMIT);
+	const filters = {
+		page: page ? bot.Title.newFromText(page)?.toText() ?? page : undefined,
+		context: context || undefined,
+		outcome: outcome || undefined,
+		limit,
+	};
+	const runs = await runLog.search(filters);
+	if (format === 'json') {
+		return res.status(200).json({ filters, runs });
+	}
+	res.status(200).render('db-tabulator/history', {
+		...filters,
+		contexts: RUN_CONTEXTS.map(value => ({ value, selected: value === context })),
+		outcomes: RUN_OUTCOMES.map(value => ({ value, selected: value === outcome })),
+		runs: runs.map(run => ({
+			...run,
+			timestamp: run.timestamp.toISOString().replace('T', ' ').slice(0, 19),
+			sqlHash: run.sqlHash?.slice(0, 8),
+		})),
+	});
 });
 
 router.get('/', async function (req, res, next) {
-	const {page} = req.query as Record<string, string>;
-	res.status(200).render( 'db-tabulator/database-report', { page });
+	const {page, idx} = req.query as Record<string, string>;
+	res.status(200).render( 'db-tabulator/database-report', { page, idx });
 });
 
 async function getLastNonBotRevId(page: string) {
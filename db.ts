@@ -69,14 +69,20 @@ export abstract class db {
 		const result = await conn.query(...args).finally(() => {
 			conn.release();
 		});
-		return result[0].map(row => {
-			Object.keys(row).forEach(prop => {
-				if (row[prop] instanceof Buffer) {
-					row[prop] = row[prop].toString();
-				}
-			});
-			return row;
+		return stringifyBuffers(result[0]);
+	}
+
+	/**
+	 * Same as query(), but runs as a prepared statement. Use when bind parameters come
+	 * from untrusted input.
+	 * @returns array of objects - each object represents a row
+	 */
+	async execute(...args: any[]): Promise<Array<Record<string, string | number | null>>> {
+		let conn = await this.getConnection();
+		const result = await conn.execute(...args).finally(() => {
+			conn.release();
 		});
+		return stringifyBuffers(result[0]);
 	}
 
 	async timedQuery(...args: any[]): Promise<[number, Array<Record<string, string | number | null>>]> {
@@ -87,6 +93,38 @@ export abstract class db {
 		return [timeTaken, queryResult];
 	}
 
+	async timedExecute(...args: any[]): Promise<[number, Array<Record<string, string | number | null>>]> {
+		let startTime = process.hrtime.bigint();
+		let queryResult = await this.execute(...args);
+		let endTime = process.hrtime.bigint();
+		let timeTaken = Number(endTime - startTime) / 1e9;
+		return [timeTaken, queryResult];
+	}
+
+	/**
+	 * Same as timedQuery(), or timedExecute() if prepared is set, but also passes the ID of the
+	 * connection running the query to onStart, so that it can be inspected (SHOW EXPLAIN FOR)
+	 * or killed from another connection while it runs.
+	 */
+	async timedQueryWithThreadId(
+		onStart: (threadId: number) => void,
+		prepared: boolean,
+		sql: string,
+		values?: any[]
+	): Promise<[number, Array<Record<string, string | number | null>>]> {
+		let conn = await this.getConnection();
+		try {
+			let startTime = process.hrtime.bigint();
+			const resultPromise = prepared ? conn.execute(sql, values) : conn.query(sql, values);
+			onStart(conn.threadId);
+			const result = await resultPromise;
+			let endTime = process.hrtime.bigint();
+			return [Number(endTime - startTime) / 1e9, stringifyBuffers(result[0])];
+		} finally {
+			conn.release();
+		}
+	}
+
 	async run(...args: any[]) {
 		// convert `undefined`s in bind parameters to null
 		if (args[1] instanceof Array) {
@@ -100,10 +138,16 @@ export abstract class db {
 
 	async transaction(func: (conn: mysql.PoolConnection) => Promise<void>) {
 		let conn = await this.getConnection();
-		await conn.beginTransaction();
-		await func(conn);
-		await conn.commit();
-		conn.release();
+		try {
+			await conn.beginTransaction();
+			await func(conn);
+			await conn.commit();
+		} catch (e) {
+			await conn.rollback().catch(() => {});
+			throw e;
+		} finally {
+			conn.release();
+		}
 	}
 
 	/**
@@ -115,12 +159,30 @@ export abstract class db {
 	}
 }
 
-export class commonswikidb extends db {
-	constructor(customOptions: mysql.PoolOptions = {}) {
+function stringifyBuffers(rows) {
+	return rows.map(row => {
+		Object.keys(row).forEach(prop => {
+			if (row[prop] instanceof Buffer) {
+				row[prop] = row[prop].toString();
+			}
+		});
+		return row;
+	});
+}
+
+/**
+ * Wiki replica database of any wiki.
+ */
+export class wikireplicadb extends db {
+	/**
+	 * @param dbname - database name of the wiki, eg. enwiki or wikidatawiki
+	 * @param customOptions - extra mysql pool connection options
+	 */
+	constructor(dbname: string, customOptions: mysql.PoolOptions = {}) {
 		super({
-			host: onToolforge() ? COMMONSWIKI_DB_HOST : '127.0.0.1',
+			host: onToolforge() ? `${dbname}.analytics.db.svc.wikimedia.cloud` : '127.0.0.1',
 			port: onToolforge() ? 3306 : 4711,
-			database: 'commonswiki_p',
+			database: dbname + '_p',
 			...customOptions
 		});
 	}
@@ -146,6 +208,15 @@ export class commonswikidb extends db {
 	}
 }
 
+export class commonswikidb extends wikireplicadb {
+	constructor(customOptions: mysql.PoolOptions = {}) {
+		super('commonswiki', {
+			host: onToolforge() ? COMMONSWIKI_DB_HOST : '127.0.0.1',
+			...customOptions
+		});
+	}
+}
+
 export class CommonswikiWebDb extends commonswikidb {
 	constructor(customOptions: mysql.PoolOptions = {}) {
 		super({
@@ -0,0 +1,129 @@
+/**
+ * Versioned schema migrations for ToolsDB databases.
+ *
+ * Migrations are SQL files named like 001-create-tables.sql in a directory of the tool, applied
+ * in order of their version number. The latest applied version is recorded in the
+ * schema_migrations table of the database. Applied migrations must not be edited: add a new
+ * one instead.
+ *
+ * Each migration runs in a transaction, but note that MariaDB commits implicitly on DDL
+ * statements, so a migration failing halfway is not rolled back. Prefer one DDL statement per
+ * migration, or statements which can be re-run (IF NOT EXISTS).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {toolsdb} from './db';
+import {log} from './botbase';
+
+export interface Migration {
+	version: number;
+	name: string;
+	statements: string[];
+}
+
+const MIGRATION_FILE_RGX = /^(\d+)-(.*)\.sql$/;
+
+/** Seconds to wait for another process applying migrations to the same database */
+const LOCK_TIMEOUT = 120;
+
+export class MigrationError extends Error {}
+
+/**
+ * Split SQL into statements on semicolons at line ends. Comment lines (-- or #) are dropped.
+ */
+export function splitStatements(sql: string): string[] {
+	return sql
+		.split('\n')
+		.filter(line => !/^\s*(--|#)/.test(line))
+		.join('\n')
+		.split(/;\s*$/m)
+		.map(statement => statement.trim())
+		.filter(statement => statement);
+}
+
+export function loadMigrations(dir: string): Migration[] {
+	const migrations = fs.readdirSync(dir)
+		.filter(file => MIGRATION_FILE_RGX.test(file))
+		.map(file => {
+			const [, version, name] = file.match(MIGRATION_FILE_RGX);
+			return {
+				version: parseInt(version),
+				name,
+				statements: splitStatements(fs.readFileSync(path.join(dir, file)).toString()),
+			};
+		})
+		.sort((a, b) => a.version - b.version);
+	for (let i = 1; i < migrations.length; i++) {
+		if (migrations[i].version === migrations[i - 1].version) {
+			throw new MigrationError(`Duplicate migration version ${migrations[i].version} in ${dir}`);
+		}
+	}
+	return migrations;
+}
+
+export class MigrationRunner {
+	db: toolsdb;
+	dir: string;
+
+	/**
+	 * @param db - database to migrate
+	 * @param dir - directory with the migration files
+	 */
+	constructor(db: toolsdb, dir: string) {
+		this.db = db;
+		this.dir = dir;
+	}
+
+	async getCurrentVersion(): Promise<number> {
+		await this.db.query(`
+			CREATE TABLE IF NOT EXISTS schema_migrations(
+				version INT UNSIGNED PRIMARY KEY,
+				name VARCHAR(255),
+				appliedAt DATETIME
+			)
+		`);
+		const rows = await this.db.query(`SELECT MAX(version) AS version FROM schema_migrations`);
+		return Number(rows[0]?.version ?? 0);
+	}
+
+	async getPending(): Promise<Migration[]> {
+		const currentVersion = await this.getCurrentVersion();
+		return loadMigrations(this.dir).filter(migration => migration.version > currentVersion);
+	}
+
+	/**
+	 * Apply pending migrations. A named lock keeps other processes (eg. the webservice starting
+	 * at the same time as a cron job) from applying them concurrently.
+	 * @returns migrations applied
+	 */
+	async migrate(): Promise<Migration[]> {
+		const lockConn = await this.db.getConnection();
+		// Lock names are server-wide, hence qualified by the database name
+		const lockName = `CONCAT('migrations:', DATABASE())`;
+		try {
+			const [lockResult] = await lockConn.query(`SELECT GET_LOCK(${lockName}, ?) AS acquired`, [LOCK_TIMEOUT]);
+			if (lockResult[0]?.acquired !== 1) {
+				throw new MigrationError(`Timed out waiting for lock on migrations of ${this.dir}`);
+			}
+			// Checked after getting the lock, in case another process just applied them
+			const pending = await this.getPending();
+			for (let migration of pending) {
+				log(`[i] Applying migration ${migration.version}-${migration.name}`);
+				await this.db.transaction(async conn => {
+					for (let statement of migration.statements) {
+						await conn.query(statement);
+					}
+					await conn.execute(`
+						INSERT INTO schema_migrations(version, name, appliedAt)
+						VALUES (?, ?, UTC_TIMESTAMP())
+					`, [migration.version, migration.name]);
+				});
+			}
+			return pending;
+		} finally {
+			await lockConn.query(`SELECT RELEASE_LOCK(${lockName})`).catch(() => {});
+			lockConn.release();
+		}
+	}
+}